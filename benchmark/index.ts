@@ -0,0 +1,149 @@
+import { performance } from 'perf_hooks';
+import Iterable, { count, filter, first, items, map, pipe, skip } from '../src';
+
+interface Case {
+    name: string;
+    run: () => any;
+}
+
+interface Suite {
+    name: string;
+    // The first case is the baseline the other cases are compared with.
+    cases: Case[];
+}
+
+const size = 10000;
+const numbers = Iterable.range(0, size).items();
+const set = new Set(numbers);
+const entries = new Map(numbers.map(x => [x, x] as [number, number]));
+
+const isEven = (x: number) => x % 2 === 0;
+const double = (x: number) => x * 2;
+const notMultipleOfThree = (x: number) => x % 3 !== 0;
+const increment = (x: number) => x + 1;
+const isPositive = (x: number) => x > 0;
+
+// Keeps results alive so the engine cannot drop the benchmarked work.
+let sink: any;
+
+function measure(run: () => any, duration: number): number {
+    // Warms up the code paths before timing them.
+    for (let i = 0; i < 10; i++) {
+        sink = run();
+    }
+
+    let runs = 0;
+    const start = performance.now();
+    let elapsed = 0;
+    while (elapsed < duration) {
+        sink = run();
+        runs++;
+        elapsed = performance.now() - start;
+    }
+
+    return (runs * 1000) / elapsed;
+}
+
+const suites: Suite[] = [
+    {
+        name: `filter/map/filter/map/filter over ${size} numbers`,
+        cases: [
+            {
+                name: 'generator per stage',
+                run: () =>
+                    pipe(
+                        numbers,
+                        filter(isEven),
+                        map(double),
+                        filter(notMultipleOfThree),
+                        map(increment),
+                        filter(isPositive),
+                        count()
+                    )
+            },
+            {
+                name: 'fused stages',
+                run: () =>
+                    new Iterable(numbers)
+                        .filter(isEven)
+                        .map(double)
+                        .filter(notMultipleOfThree)
+                        .map(increment)
+                        .filter(isPositive)
+                        .count()
+            },
+            {
+                name: 'native array methods',
+                run: () =>
+                    numbers
+                        .filter(isEven)
+                        .map(double)
+                        .filter(notMultipleOfThree)
+                        .map(increment)
+                        .filter(isPositive).length
+            }
+        ]
+    },
+    {
+        name: `map over ${size} numbers to an array`,
+        cases: [
+            { name: 'generator per stage', run: () => new Iterable(pipe(numbers, map(double))).items() },
+            { name: 'fused stages', run: () => new Iterable(numbers).map(double).items() }
+        ]
+    },
+    {
+        name: `count of ${size} elements`,
+        cases: [
+            { name: 'enumerated array', run: () => pipe(numbers, count()) },
+            { name: 'array', run: () => new Iterable(numbers).count() },
+            { name: 'enumerated Set', run: () => pipe(set, count()) },
+            { name: 'Set', run: () => new Iterable(set).count() },
+            { name: 'enumerated Map', run: () => pipe(entries, count()) },
+            { name: 'Map', run: () => new Iterable(entries).count() }
+        ]
+    },
+    {
+        name: 'first element',
+        cases: [
+            { name: 'enumerated array', run: () => pipe(numbers, first()) },
+            { name: 'array', run: () => new Iterable(numbers).first() }
+        ]
+    },
+    {
+        name: `items of ${size} elements`,
+        cases: [
+            { name: 'enumerated array', run: () => pipe(numbers, items()) },
+            { name: 'array', run: () => new Iterable(numbers).items() },
+            { name: 'enumerated Set', run: () => pipe(set, items()) },
+            { name: 'Set', run: () => new Iterable(set).items() }
+        ]
+    },
+    {
+        name: `element at ${size / 2}`,
+        cases: [
+            { name: 'enumerated array', run: () => pipe(numbers, skip(size / 2), first()) },
+            { name: 'array', run: () => new Iterable(numbers).elementAt(size / 2) }
+        ]
+    }
+];
+
+function format(value: number, width: number): string {
+    return value.toFixed(0).padStart(width);
+}
+
+const duration = Number(process.argv[2]) || 500;
+for (const suite of suites) {
+    console.log(suite.name);
+    const baseline = measure(suite.cases[0].run, duration);
+    for (const [index, benchmark] of suite.cases.entries()) {
+        const opsPerSecond = index === 0 ? baseline : measure(benchmark.run, duration);
+        const ratio = (opsPerSecond / baseline).toFixed(2);
+        console.log(`  ${benchmark.name.padEnd(24)}${format(opsPerSecond, 12)} ops/s ${ratio.padStart(10)}x`);
+    }
+
+    console.log();
+}
+
+if (sink === undefined) {
+    console.log('No results were produced.');
+}
@@ -0,0 +1,805 @@
+import { disposeAsync } from './disposal';
+import { createSet, EqualityComparer } from './equality';
+import {
+    AbortError,
+    ArgumentOutOfRangeError,
+    CompositeError,
+    TimeoutError,
+    validateArgument
+} from './errors';
+import { defaultScheduler, Scheduler } from './scheduler';
+import LibIterable, { LibAsyncIterable } from './types';
+
+/**
+ * @description A source that can be consumed by {AsyncIterable}. Either an async iterable, a sync iterable or a
+ * function (sync or async) that returns one of them.
+ */
+export type AsyncSource<T> =
+    | LibAsyncIterable<T>
+    | LibIterable<T>
+    | (() => LibAsyncIterable<T> | LibIterable<T> | Promise<LibAsyncIterable<T> | LibIterable<T>>);
+
+/**
+ * @description Determines how errors of concurrent operations are handled. 'failFast' rejects with the first error
+ * and stops pulling from the source, 'collect' skips failed elements and throws a CompositeError with all errors
+ * once the source is exhausted.
+ */
+export type ErrorMode = 'failFast' | 'collect';
+
+/**
+ * @description Options for the concurrent operations.
+ */
+export interface ConcurrencyOptions {
+    /**
+     * The maximum number of callbacks in flight, a positive integer or Infinity.
+     */
+    concurrency: number;
+    /**
+     * Whether results are yielded in the order of the source elements. Defaults to true.
+     */
+    ordered?: boolean;
+    /**
+     * How errors of callbacks are handled. Defaults to 'failFast'.
+     */
+    errorMode?: ErrorMode;
+}
+
+interface Settled<V> {
+    index: number;
+    failed: boolean;
+    value?: V;
+    error?: any;
+}
+
+function settle<T, V>(
+    selector: (item: T, index: number) => V | Promise<V>,
+    item: T,
+    index: number
+): Promise<Settled<V>> {
+    // Starting from a resolved promise turns synchronous throws of the selector into rejections.
+    return Promise.resolve()
+        .then(() => selector(item, index))
+        .then(
+            value => ({ index, failed: false, value }),
+            error => ({ index, failed: true, error })
+        );
+}
+
+function validateConcurrencyOptions(options: ConcurrencyOptions): void {
+    validateArgument(options, 'options');
+    const { concurrency, errorMode = 'failFast' } = options;
+    if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+        throw new ArgumentOutOfRangeError('concurrency', concurrency, 'a positive integer or Infinity');
+    }
+
+    if (errorMode !== 'failFast' && errorMode !== 'collect') {
+        throw new ArgumentOutOfRangeError('errorMode', errorMode, `'failFast' or 'collect'`);
+    }
+}
+
+interface Timer {
+    elapsed: Promise<void>;
+    cancel: () => void;
+}
+
+function startTimer(scheduler: Scheduler, milliseconds: number): Timer {
+    let cancel: () => void;
+    const elapsed = new Promise<void>(resolve => {
+        cancel = scheduler.schedule(resolve, milliseconds);
+    });
+
+    return { elapsed, cancel };
+}
+
+function pull<T>(iterator: AsyncIterator<T>): Promise<IteratorResult<T>> {
+    const next = iterator.next();
+    // Time-based operators pull ahead of the consumer. A failure is rethrown once the consumer asks for it, and must
+    // not be reported as unhandled in the meantime.
+    next.catch(() => undefined);
+    return next;
+}
+
+function raceTimer<T>(next: Promise<IteratorResult<T>>, timer: Timer | null): Promise<IteratorResult<T> | null> {
+    return timer ? Promise.race([next, timer.elapsed.then(() => null)]) : next;
+}
+
+function closeEarly(iterator: AsyncIterator<any>): void {
+    // The source may be waiting on a pulled element, in which case returning completes only after it arrived, so
+    // the source is closed without waiting for it.
+    iterator.return().catch(() => undefined);
+}
+
+function abortable<T>(source: LibAsyncIterable<T>, signal?: AbortSignal): LibAsyncIterable<T> {
+    if (!signal) {
+        return source;
+    }
+
+    return {
+        async *[Symbol.asyncIterator](): AsyncIterator<T> {
+            if (signal.aborted) {
+                throw new AbortError();
+            }
+
+            let onAbort: () => void;
+            const aborted = new Promise<never>((_, reject) => {
+                onAbort = () => reject(new AbortError());
+                signal.addEventListener('abort', onAbort);
+            });
+
+            aborted.catch(() => undefined);
+            const iterator = source[Symbol.asyncIterator]();
+            let done = false;
+            try {
+                while (true) {
+                    // Racing the pending element lets an abort interrupt a source that is waiting, e.g. on a read.
+                    const result = await Promise.race([pull(iterator), aborted]);
+                    if (result.done) {
+                        done = true;
+                        return;
+                    }
+
+                    yield result.value;
+                }
+            } finally {
+                signal.removeEventListener('abort', onAbort);
+                if (!done) {
+                    closeEarly(iterator);
+                }
+            }
+        }
+    };
+}
+
+function validateDuration(value: number, name: string): void {
+    if (typeof value !== 'number' || !(value >= 0)) {
+        throw new ArgumentOutOfRangeError(name, value, 'a non-negative number');
+    }
+}
+
+/**
+ * @description Async iterable wrapper that exposes functional operations to work with async generators, async
+ * iterables and regular iterables. Callbacks passed to operations can return promises.
+ * @export
+ * @class AsyncIterable
+ * @implements {AsyncIterable<T>}
+ * @template T
+ */
+export class AsyncIterable<T> implements LibAsyncIterable<T> {
+    /**
+     * Creates an instance of AsyncIterable.
+     * @param {AsyncSource<T>} source The source to use. This can be any object that supports the
+     * {Symbol.asyncIterator} or {Symbol.iterator} symbol, or a function (e.g., an async generator) that returns
+     * or resolves to one of them.
+     * @memberof AsyncIterable
+     */
+    constructor(private readonly source: AsyncSource<T>) {
+    }
+
+    async *[Symbol.asyncIterator](): AsyncIterator<T> {
+        const src = this.source;
+        const resolved = typeof src === 'function' ? await src() : src;
+        // for-await consumes sync iterables as well, awaiting each of their elements.
+        for await (const item of resolved as LibAsyncIterable<T>) {
+            yield item;
+        }
+    }
+
+    /**
+     * @description Returns an async iterable of arrays of the elements that arrive within a time span. A span starts
+     * when the first element of an array arrives, and the array is yielded when the span elapsed, or earlier once it
+     * reached the maximum size. The remaining elements are yielded when the source completes. The source is pulled
+     * ahead of the consumer while a span is open.
+     * @param {number} milliseconds The length of each time span.
+     * @param {number} [maxSize=Infinity] Optional maximum number of elements in an array.
+     * @param {Scheduler} [scheduler] Optional scheduler used to measure time. Defaults to system timers.
+     * @returns {AsyncIterable<T[]>}
+     * @memberof AsyncIterable
+     */
+    bufferTime(
+        milliseconds: number,
+        maxSize: number = Infinity,
+        scheduler: Scheduler = defaultScheduler
+    ): AsyncIterable<T[]> {
+        validateDuration(milliseconds, 'milliseconds');
+        if (maxSize !== Infinity && (!Number.isInteger(maxSize) || maxSize < 1)) {
+            throw new ArgumentOutOfRangeError('maxSize', maxSize, 'a positive integer or Infinity');
+        }
+
+        const src = this;
+        return new AsyncIterable<T[]>(async function* () {
+            const iterator = src[Symbol.asyncIterator]();
+            let next = pull(iterator);
+            let timer: Timer = null;
+            let buffer: T[] = [];
+            let done = false;
+            try {
+                while (true) {
+                    const result = await raceTimer(next, timer);
+                    if (result && result.done) {
+                        done = true;
+                        if (buffer.length > 0) {
+                            yield buffer;
+                        }
+
+                        return;
+                    }
+
+                    if (result) {
+                        buffer.push(result.value);
+                        next = pull(iterator);
+                        timer = timer || startTimer(scheduler, milliseconds);
+                        if (buffer.length < maxSize) {
+                            continue;
+                        }
+
+                        timer.cancel();
+                    }
+
+                    const full = buffer;
+                    buffer = [];
+                    timer = null;
+                    yield full;
+                }
+            } finally {
+                if (timer) {
+                    timer.cancel();
+                }
+
+                if (!done) {
+                    closeEarly(iterator);
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Gets the count of elements in the source. The entire source is traversed to get the count.
+     * @param {AbortSignal} [signal] Optional signal that cancels the operation, rejecting it with an AbortError.
+     * @returns {Promise<number>} The count of elements in the source.
+     * @memberof AsyncIterable
+     */
+    async count(signal?: AbortSignal): Promise<number> {
+        let num = 0;
+        for await (const _ of abortable(this, signal)) { ++num; }
+        return num;
+    }
+
+    /**
+     * @description Returns an async iterable that yields an element only once no other element arrived for the
+     * specified time. The last element is yielded when the source completes. The source is pulled ahead of the
+     * consumer.
+     * @param {number} milliseconds The quiet time required after an element.
+     * @param {Scheduler} [scheduler] Optional scheduler used to measure time. Defaults to system timers.
+     * @returns {AsyncIterable<T>}
+     * @memberof AsyncIterable
+     */
+    debounce(milliseconds: number, scheduler: Scheduler = defaultScheduler): AsyncIterable<T> {
+        validateDuration(milliseconds, 'milliseconds');
+        const src = this;
+        return new AsyncIterable<T>(async function* () {
+            const iterator = src[Symbol.asyncIterator]();
+            let next = pull(iterator);
+            let timer: Timer = null;
+            let latest: T;
+            let done = false;
+            try {
+                while (true) {
+                    const result = await raceTimer(next, timer);
+                    if (!result || result.done) {
+                        done = result !== null;
+                        if (timer) {
+                            timer.cancel();
+                            timer = null;
+                            yield latest;
+                        }
+
+                        if (done) {
+                            return;
+                        }
+
+                        continue;
+                    }
+
+                    latest = result.value;
+                    next = pull(iterator);
+                    if (timer) {
+                        timer.cancel();
+                    }
+
+                    timer = startTimer(scheduler, milliseconds);
+                }
+            } finally {
+                if (timer) {
+                    timer.cancel();
+                }
+
+                if (!done) {
+                    closeEarly(iterator);
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Returns an async iterable that yields each element of the source after the specified time.
+     * Elements are pulled from the source one at a time, so the delays add up.
+     * @param {number} milliseconds The time to wait before yielding each element.
+     * @param {Scheduler} [scheduler] Optional scheduler used to measure time. Defaults to system timers.
+     * @returns {AsyncIterable<T>}
+     * @memberof AsyncIterable
+     */
+    delay(milliseconds: number, scheduler: Scheduler = defaultScheduler): AsyncIterable<T> {
+        validateDuration(milliseconds, 'milliseconds');
+        const src = this;
+        return new AsyncIterable<T>(async function* () {
+            for await (const item of src) {
+                await startTimer(scheduler, milliseconds).elapsed;
+                yield item;
+            }
+        });
+    }
+
+    /**
+     * @description Returns an async iterable containing only distinct entities found in the source.
+     * @template K The type of the comparison key.
+     * @param {(item: T, index: number) => K | Promise<K>} keySelector Selects the key used to compare elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {AsyncIterable<T>} Async iterable containing distinct entities.
+     * @memberof AsyncIterable
+     */
+    distinct<K>(
+        keySelector: (item: T, index: number) => K | Promise<K>,
+        comparer?: EqualityComparer<K>
+    ): AsyncIterable<T> {
+        validateArgument(keySelector, 'keySelector');
+        const src = this;
+        return new AsyncIterable<T>(async function* () {
+            const set = createSet<K>(comparer);
+            let index = 0;
+            for await (const item of src) {
+                const key = await keySelector(item, index++);
+                if (!set.has(key)) {
+                    set.add(key);
+                    yield item;
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Returns an async iterable that returns only filtered elements from the source.
+     * @param {(item: T, index: number) => boolean | Promise<boolean>} filter The filter to apply on the source.
+     * @returns {AsyncIterable<T>} Async iterable containing filtered entities.
+     * @memberof AsyncIterable
+     */
+    filter(filter: (item: T, index: number) => boolean | Promise<boolean>): AsyncIterable<T> {
+        validateArgument(filter, 'filter');
+        const src = this;
+        return new AsyncIterable<T>(async function* () {
+            let index = 0;
+            for await (const item of src) {
+                if (await filter(item, index++)) {
+                    yield item;
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Invokes an action for each element in the source with at most the specified number of actions in
+     * flight. Source elements are only pulled when an action slot is free, and the source is no longer pulled from
+     * once an error fails the operation.
+     * @param {(item: T, index: number) => void | Promise<void>} action The action to invoke for each element.
+     * @param {ConcurrencyOptions} options The concurrency limit and error handling of the operation. Actions always
+     * complete in any order, so the ordered option is ignored.
+     * @param {AbortSignal} [signal] Optional signal that cancels the operation, rejecting it with an AbortError. No
+     * further actions are started once it is aborted, but actions in flight are not interrupted.
+     * @returns {Promise<void>} A promise resolved once all actions completed.
+     * @memberof AsyncIterable
+     */
+    async forEachConcurrent(
+        action: (item: T, index: number) => void | Promise<void>,
+        options: ConcurrencyOptions,
+        signal?: AbortSignal
+    ): Promise<void> {
+        validateArgument(action, 'action');
+        // An element pulled while the signal was aborted may still arrive before the source is closed.
+        const guarded = (item: T, index: number) => (signal && signal.aborted ? undefined : action(item, index));
+        const results = this.mapConcurrent(guarded, { ...options, ordered: false });
+        for await (const _ of abortable(results, signal)) {
+            // Results are discarded. Enumerating them drives the actions.
+        }
+    }
+
+    /**
+     * @description Returns an async iterable that yields the elements of the source and invokes an action once an
+     * enumeration ends, whether it completed, was stopped early, was aborted or failed. Promises returned by the
+     * action are awaited.
+     * @param {() => void | Promise<void>} action The action to invoke.
+     * @returns {AsyncIterable<T>}
+     * @memberof AsyncIterable
+     */
+    finally(action: () => void | Promise<void>): AsyncIterable<T> {
+        validateArgument(action, 'action');
+        const src = this;
+        return new AsyncIterable<T>(async function* () {
+            try {
+                yield* src;
+            } finally {
+                await action();
+            }
+        });
+    }
+
+    /**
+     * @description Gets the first element from the source.
+     * @param {(item: T, index: number) => boolean | Promise<boolean>} [filter] Optional filter applied to find the
+     * first matching element.
+     * @param {AbortSignal} [signal] Optional signal that cancels the operation, rejecting it with an AbortError.
+     * @returns {Promise<T>} The first element from the source, or null when there is none.
+     * @memberof AsyncIterable
+     */
+    async first(filter?: (item: T, index: number) => boolean | Promise<boolean>, signal?: AbortSignal): Promise<T> {
+        let index = 0;
+        for await (const item of abortable(this, signal)) {
+            if (!filter || await filter(item, index++)) {
+                return item;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * @description Gets an array of items from the source.
+     * @param {AbortSignal} [signal] Optional signal that cancels the operation, rejecting it with an AbortError.
+     * @returns {Promise<T[]>} Array of items from the source.
+     * @memberof AsyncIterable
+     */
+    async items(signal?: AbortSignal): Promise<T[]> {
+        const result: T[] = [];
+        for await (const item of abortable(this, signal)) {
+            result.push(item);
+        }
+
+        return result;
+    }
+
+    /**
+     * @description Calls a callback for each item in the source and returns the returned (or resolved) value from
+     * the callback.
+     * @template V
+     * @param {(item: T, index: number) => V | Promise<V>} selector The callback function to invoke for each element.
+     * @returns {AsyncIterable<V>}
+     * @memberof AsyncIterable
+     */
+    map<V>(selector: (item: T, index: number) => V | Promise<V>): AsyncIterable<V> {
+        validateArgument(selector, 'selector');
+        const src = this;
+        return new AsyncIterable<V>(async function* () {
+            let index = 0;
+            for await (const item of src) {
+                yield await selector(item, index++);
+            }
+        });
+    }
+
+    /**
+     * @description Calls a callback for each item in the source with at most the specified number of callbacks in
+     * flight, and returns the returned (or resolved) values from the callback. Source elements are only pulled when
+     * a callback slot is free. In ordered mode, results that complete ahead of earlier ones are held back and count
+     * towards the concurrency limit, so the number of buffered results stays bounded. When the consumer stops early
+     * or an error fails the operation, the source is no longer pulled from, while callbacks already in flight run
+     * to completion and their results are discarded.
+     * @template V
+     * @param {(item: T, index: number) => V | Promise<V>} selector The callback function to invoke for each element.
+     * @param {ConcurrencyOptions} options The concurrency limit, ordering and error handling of the operation.
+     * @returns {AsyncIterable<V>}
+     * @memberof AsyncIterable
+     */
+    mapConcurrent<V>(
+        selector: (item: T, index: number) => V | Promise<V>,
+        options: ConcurrencyOptions
+    ): AsyncIterable<V> {
+        validateArgument(selector, 'selector');
+        validateConcurrencyOptions(options);
+        const { concurrency, ordered = true, errorMode = 'failFast' } = options;
+        const src = this;
+        return new AsyncIterable<V>(async function* () {
+            const iterator = src[Symbol.asyncIterator]();
+            const pending = new Map<number, Promise<Settled<V>>>();
+            const completed = new Map<number, Settled<V>>();
+            const errors: any[] = [];
+            let exhausted = false;
+            let index = 0;
+            let next = 0;
+            try {
+                while (true) {
+                    while (!exhausted && pending.size + completed.size < concurrency) {
+                        const result = await iterator.next();
+                        if (result.done) {
+                            exhausted = true;
+                        } else {
+                            pending.set(index, settle(selector, result.value, index++));
+                        }
+                    }
+
+                    if (pending.size === 0) {
+                        break;
+                    }
+
+                    const settled = await Promise.race(pending.values());
+                    pending.delete(settled.index);
+                    if (settled.failed) {
+                        if (errorMode === 'failFast') {
+                            throw settled.error;
+                        }
+
+                        errors.push(settled.error);
+                    }
+
+                    if (!ordered) {
+                        if (!settled.failed) {
+                            yield settled.value;
+                        }
+
+                        continue;
+                    }
+
+                    completed.set(settled.index, settled);
+                    while (completed.has(next)) {
+                        const current = completed.get(next);
+                        completed.delete(next++);
+                        if (!current.failed) {
+                            yield current.value;
+                        }
+                    }
+                }
+            } finally {
+                if (!exhausted) {
+                    await iterator.return();
+                }
+            }
+
+            if (errors.length > 0) {
+                throw new CompositeError(errors);
+            }
+        });
+    }
+
+    /**
+     * @description Calls a callback for each item in the source and returns individual result values from the
+     * callback. The callback can return a sync or an async iterable, or a promise resolving to one.
+     * @template V
+     * @param {(item: T, index: number) => LibIterable<V> | LibAsyncIterable<V>} selector The callback function to
+     * invoke for each element in the source.
+     * @returns {AsyncIterable<V>}
+     * @memberof AsyncIterable
+     */
+    mapMany<V>(
+        selector: (
+            item: T,
+            index: number
+        ) => LibIterable<V> | LibAsyncIterable<V> | Promise<LibIterable<V> | LibAsyncIterable<V>>
+    ): AsyncIterable<V> {
+        validateArgument(selector, 'selector');
+        const src = this;
+        return new AsyncIterable<V>(async function* () {
+            let index = 0;
+            for await (const item of src) {
+                for await (const inner of (await selector(item, index++)) as LibAsyncIterable<V>) {
+                    yield inner;
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Returns an async iterable that yields the latest element of the source at a fixed interval, when
+     * an element arrived since the previous sample. An element that arrived after the last sample is not yielded
+     * when the source completes. The source is pulled ahead of the consumer.
+     * @param {number} interval The time between samples in milliseconds.
+     * @param {Scheduler} [scheduler] Optional scheduler used to measure time. Defaults to system timers.
+     * @returns {AsyncIterable<T>}
+     * @memberof AsyncIterable
+     */
+    sample(interval: number, scheduler: Scheduler = defaultScheduler): AsyncIterable<T> {
+        validateDuration(interval, 'interval');
+        const src = this;
+        return new AsyncIterable<T>(async function* () {
+            const iterator = src[Symbol.asyncIterator]();
+            let next = pull(iterator);
+            let due = scheduler.now() + interval;
+            let tick = startTimer(scheduler, interval);
+            let latest: T;
+            let hasLatest = false;
+            let done = false;
+            try {
+                while (true) {
+                    const result = await raceTimer(next, tick);
+                    if (result && result.done) {
+                        done = true;
+                        return;
+                    }
+
+                    if (result) {
+                        latest = result.value;
+                        hasLatest = true;
+                        next = pull(iterator);
+                        continue;
+                    }
+
+                    // Samples are due at multiples of the interval, regardless of how long the consumer took.
+                    due += interval;
+                    tick = startTimer(scheduler, due - scheduler.now());
+                    if (hasLatest) {
+                        hasLatest = false;
+                        yield latest;
+                    }
+                }
+            } finally {
+                tick.cancel();
+                if (!done) {
+                    closeEarly(iterator);
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Determines whether the supplied callback function returns true for any element in the source.
+     * @param {(item: T, index: number) => boolean | Promise<boolean>} filter The callback function to invoke.
+     * @param {AbortSignal} [signal] Optional signal that cancels the operation, rejecting it with an AbortError.
+     * @returns {Promise<boolean>}
+     * @memberof AsyncIterable
+     */
+    async some(filter: (item: T, index: number) => boolean | Promise<boolean>, signal?: AbortSignal): Promise<boolean> {
+        validateArgument(filter, 'filter');
+        let index = 0;
+        for await (const item of abortable(this, signal)) {
+            if (await filter(item, index++)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * @description Returns an async iterable that yields an element and then ignores the elements that arrive within
+     * the specified time after it.
+     * @param {number} milliseconds The time during which elements are ignored after a yielded element.
+     * @param {Scheduler} [scheduler] Optional scheduler used to measure time. Defaults to system timers.
+     * @returns {AsyncIterable<T>}
+     * @memberof AsyncIterable
+     */
+    throttle(milliseconds: number, scheduler: Scheduler = defaultScheduler): AsyncIterable<T> {
+        validateDuration(milliseconds, 'milliseconds');
+        const src = this;
+        return new AsyncIterable<T>(async function* () {
+            let last: number = null;
+            for await (const item of src) {
+                const now = scheduler.now();
+                if (last === null || now - last >= milliseconds) {
+                    last = now;
+                    yield item;
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Returns an async iterable that rejects with a TimeoutError when the source takes longer than the
+     * specified time to produce an element. Only the time spent waiting on the source counts, not the time the
+     * consumer spends between elements. The source is closed without waiting for it when it timed out.
+     * @param {number} milliseconds The time allowed for each element.
+     * @param {Scheduler} [scheduler] Optional scheduler used to measure time. Defaults to system timers.
+     * @returns {AsyncIterable<T>}
+     * @memberof AsyncIterable
+     */
+    timeout(milliseconds: number, scheduler: Scheduler = defaultScheduler): AsyncIterable<T> {
+        validateDuration(milliseconds, 'milliseconds');
+        const src = this;
+        return new AsyncIterable<T>(async function* () {
+            const iterator = src[Symbol.asyncIterator]();
+            let done = false;
+            try {
+                while (true) {
+                    const timer = startTimer(scheduler, milliseconds);
+                    const result = await raceTimer(pull(iterator), timer).finally(timer.cancel);
+                    if (!result) {
+                        throw new TimeoutError(milliseconds);
+                    }
+
+                    if (result.done) {
+                        done = true;
+                        return;
+                    }
+
+                    yield result.value;
+                }
+            } finally {
+                if (!done) {
+                    closeEarly(iterator);
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Determines whether all elements in the source satisfy the specified test.
+     * @param {(item: T, index: number) => boolean | Promise<boolean>} test The test function.
+     * @param {AbortSignal} [signal] Optional signal that cancels the operation, rejecting it with an AbortError.
+     * @returns {Promise<boolean>}
+     * @memberof AsyncIterable
+     */
+    async every(test: (item: T, index: number) => boolean | Promise<boolean>, signal?: AbortSignal): Promise<boolean> {
+        validateArgument(test, 'test');
+        let index = 0;
+        for await (const item of abortable(this, signal)) {
+            if (!(await test(item, index++))) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * @description Returns a new AsyncIterable consisting of the elements in the
+     * current object followed by that of the input argument.
+     * @param other {LibIterable<T> | LibAsyncIterable<T>} A sync or async iterable
+     * @returns {AsyncIterable<T>} a new AsyncIterable that contains elements from both sources
+     */
+    concat(other: LibIterable<T> | LibAsyncIterable<T>): AsyncIterable<T> {
+        const src = this;
+        return new AsyncIterable(async function* () {
+            yield* src;
+            for await (const item of other as LibAsyncIterable<T>) {
+                yield item;
+            }
+        });
+    }
+
+    /**
+     * @description Gets an empty async iterable.
+     * @static
+     * @template T The element type of the iterable.
+     * @returns {AsyncIterable<T>}
+     * @memberof AsyncIterable
+     */
+    static empty<T>(): AsyncIterable<T> {
+        return new AsyncIterable<T>([]);
+    }
+
+    /**
+     * @description Returns an async iterable over a resource that is acquired when an enumeration starts and disposed
+     * when it ends, whether it completed, was stopped early, was aborted or failed. Resources are disposed using their
+     * Symbol.asyncDispose or Symbol.dispose methods when the runtime supports them, or their dispose method, and
+     * returned promises are awaited.
+     * @static
+     * @template R The type of the resource.
+     * @template T The element type of the iterable.
+     * @param {() => R | Promise<R>} resourceFactory Acquires the resource for an enumeration.
+     * @param {(resource: R) => AsyncSource<T>} iterableFactory Gets the elements from the resource.
+     * @returns {AsyncIterable<T>}
+     * @memberof AsyncIterable
+     */
+    static using<R, T>(
+        resourceFactory: () => R | Promise<R>,
+        iterableFactory: (resource: R) => AsyncSource<T>
+    ): AsyncIterable<T> {
+        validateArgument(resourceFactory, 'resourceFactory');
+        validateArgument(iterableFactory, 'iterableFactory');
+        return new AsyncIterable<T>(async function* () {
+            const resource = await resourceFactory();
+            try {
+                yield* new AsyncIterable<T>(iterableFactory(resource));
+            } finally {
+                await disposeAsync(resource);
+            }
+        });
+    }
+}
+
+export default AsyncIterable;
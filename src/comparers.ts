@@ -0,0 +1,33 @@
+/**
+ * @description Compares two values, returning a negative number when the first value sorts before the second, a
+ * positive number when it sorts after the second and zero when both sort equally.
+ */
+export type Comparer<T> = (a: T, b: T) => number;
+
+/**
+ * @description Compares two values using the relational operators.
+ * @export
+ * @template T
+ * @param {T} a The first value.
+ * @param {T} b The second value.
+ * @returns {number}
+ */
+export function defaultComparer<T>(a: T, b: T): number {
+    if (a < b) {
+        return -1;
+    }
+
+    return a > b ? 1 : 0;
+}
+
+/**
+ * @description Creates a comparer for strings that uses the language sensitive ordering of an Intl.Collator.
+ * @export
+ * @param {(string | string[])} [locales] The locale or locales to use.
+ * @param {Intl.CollatorOptions} [options] Options for the collator, such as sensitivity or numeric ordering.
+ * @returns {Comparer<string>}
+ */
+export function localeComparer(locales?: string | string[], options?: Intl.CollatorOptions): Comparer<string> {
+    const collator = new Intl.Collator(locales, options);
+    return (a, b) => collator.compare(a, b);
+}
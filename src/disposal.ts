@@ -0,0 +1,42 @@
+// Symbol.dispose and Symbol.asyncDispose are undefined on runtimes without explicit resource management, where
+// looking them up finds no method and the dispose method is used instead.
+const disposeSymbol: symbol = (Symbol as any).dispose;
+const asyncDisposeSymbol: symbol = (Symbol as any).asyncDispose;
+
+/**
+ * @description Releases a resource using its Symbol.dispose method, or its dispose method. Null and undefined
+ * resources are ignored, and a TypeError is thrown for other resources without either method.
+ * @export
+ * @param {*} resource The resource to release.
+ * @returns {*} The result of the method, which is a promise for some async resources.
+ */
+export function dispose(resource: any): any {
+    if (resource == null) {
+        return undefined;
+    }
+
+    if (typeof resource[disposeSymbol] === 'function') {
+        return resource[disposeSymbol]();
+    }
+
+    if (typeof resource.dispose === 'function') {
+        return resource.dispose();
+    }
+
+    throw new TypeError('The resource does not have a dispose method');
+}
+
+/**
+ * @description Releases a resource using its Symbol.asyncDispose method, or like dispose does, awaiting the
+ * result.
+ * @export
+ * @param {*} resource The resource to release.
+ * @returns {Promise<void>}
+ */
+export async function disposeAsync(resource: any): Promise<void> {
+    if (resource != null && typeof resource[asyncDisposeSymbol] === 'function') {
+        await resource[asyncDisposeSymbol]();
+    } else {
+        await dispose(resource);
+    }
+}
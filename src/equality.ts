@@ -0,0 +1,398 @@
+import LibIterable from './types';
+
+/**
+ * @description Determines whether two values are equal. Values that are equal must produce the same hash code.
+ */
+export interface EqualityComparer<T> {
+    equals(a: T, b: T): boolean;
+    hash(value: T): number;
+}
+
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+function combineHashes(a: number, b: number): number {
+    return (Math.imul(a, 31) + b) | 0;
+}
+
+function hashString(value: string): number {
+    let hash = 17;
+    for (let i = 0; i < value.length; i++) {
+        hash = combineHashes(hash, value.charCodeAt(i));
+    }
+
+    return hash;
+}
+
+function isSameValueZero(a: any, b: any): boolean {
+    // NaN is the only value that is not equal to itself.
+    return a === b || (a !== a && b !== b);
+}
+
+function hashValue(value: any): number {
+    if (value === null || value === undefined) {
+        return 0;
+    }
+
+    if (typeof value === 'object' || typeof value === 'function') {
+        let id = objectIds.get(value);
+        if (id === undefined) {
+            id = nextObjectId++;
+            objectIds.set(value, id);
+        }
+
+        return id;
+    }
+
+    return hashString(`${typeof value}:${String(value)}`);
+}
+
+function deepEquals(a: any, b: any): boolean {
+    if (isSameValueZero(a, b)) {
+        return true;
+    }
+
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+        return false;
+    }
+
+    if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+        return false;
+    }
+
+    if (a instanceof Date) {
+        return isSameValueZero(a.getTime(), b.getTime());
+    }
+
+    if (a instanceof RegExp) {
+        return String(a) === String(b);
+    }
+
+    if (Array.isArray(a)) {
+        return a.length === b.length && a.every((item, index) => deepEquals(item, b[index]));
+    }
+
+    if (a instanceof Map) {
+        const entries = [...b];
+        return (
+            a.size === b.size &&
+            [...a].every(([key, value]) => entries.some(([k, v]) => deepEquals(key, k) && deepEquals(value, v)))
+        );
+    }
+
+    if (a instanceof Set) {
+        const values = [...b];
+        return a.size === b.size && [...a].every(value => values.some(v => deepEquals(value, v)));
+    }
+
+    const keys = Object.keys(a);
+    return (
+        keys.length === Object.keys(b).length &&
+        keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEquals(a[key], b[key]))
+    );
+}
+
+function deepHash(value: any): number {
+    if (typeof value !== 'object' || value === null) {
+        return hashValue(value);
+    }
+
+    if (value instanceof Date) {
+        return hashValue(value.getTime());
+    }
+
+    if (value instanceof RegExp) {
+        return hashValue(String(value));
+    }
+
+    if (Array.isArray(value)) {
+        return value.reduce((hash, item) => combineHashes(hash, deepHash(item)), 1);
+    }
+
+    // Maps, sets and objects are equal regardless of the order of their entries, so their hashes are summed.
+    if (value instanceof Map) {
+        let hash = 2;
+        for (const [key, item] of value) {
+            hash = (hash + combineHashes(deepHash(key), deepHash(item))) | 0;
+        }
+
+        return hash;
+    }
+
+    if (value instanceof Set) {
+        let hash = 3;
+        for (const item of value) {
+            hash = (hash + deepHash(item)) | 0;
+        }
+
+        return hash;
+    }
+
+    let result = 4;
+    for (const key of Object.keys(value)) {
+        result = (result + combineHashes(hashString(key), deepHash(value[key]))) | 0;
+    }
+
+    return result;
+}
+
+/**
+ * @description Compares values using the SameValueZero algorithm used by Map and Set. Objects are compared by
+ * reference.
+ */
+export const defaultEqualityComparer: EqualityComparer<any> = {
+    equals: isSameValueZero,
+    hash: hashValue
+};
+
+/**
+ * @description Compares arrays, plain objects, maps, sets, dates and regular expressions by their contents,
+ * recursively. Other values are compared using SameValueZero. Values must not contain circular references.
+ */
+export const structuralEqualityComparer: EqualityComparer<any> = {
+    equals: deepEquals,
+    hash: deepHash
+};
+
+/**
+ * @description Compares strings ignoring their case.
+ */
+export const caseInsensitiveEqualityComparer: EqualityComparer<string> = {
+    equals: (a, b) => isSameValueZero(a, b) || (a != null && b != null && a.toLowerCase() === b.toLowerCase()),
+    hash: value => hashValue(value == null ? value : value.toLowerCase())
+};
+
+/**
+ * @description Creates a comparer for tuples, such as composite keys, that compares their elements by position.
+ * @export
+ * @template T The type of the tuples.
+ * @param {...EqualityComparer<any>[]} comparers Optional comparers for the elements at each position. Elements
+ * without a comparer are compared using the default equality comparer.
+ * @returns {EqualityComparer<T>}
+ */
+export function tupleEqualityComparer<T extends any[]>(...comparers: EqualityComparer<any>[]): EqualityComparer<T> {
+    const comparerAt = (index: number) => comparers[index] || defaultEqualityComparer;
+    return {
+        equals: (a, b) =>
+            isSameValueZero(a, b) ||
+            (a != null &&
+                b != null &&
+                a.length === b.length &&
+                a.every((item, index) => comparerAt(index).equals(item, b[index]))),
+        hash: value =>
+            value == null
+                ? 0
+                : value.reduce((hash: number, item, index) => combineHashes(hash, comparerAt(index).hash(item)), 1)
+    };
+}
+
+interface Entry<K, V> {
+    key: K;
+    value: V;
+}
+
+/**
+ * @description A Map that compares keys using an equality comparer. Keys are stored in buckets by their hash code
+ * and entries are iterated in insertion order.
+ * @export
+ * @class HashMap
+ * @implements {Map<K, V>}
+ * @template K
+ * @template V
+ */
+export class HashMap<K, V> implements Map<K, V> {
+    readonly [Symbol.toStringTag]: string = 'HashMap';
+    private readonly buckets = new Map<number, Entry<K, V>[]>();
+    // Sets iterate in insertion order and support constant time deletes, which keeps entries ordered.
+    private readonly ordered = new Set<Entry<K, V>>();
+
+    /**
+     * Creates an instance of HashMap.
+     * @param {EqualityComparer<K>} comparer The comparer used to compare keys.
+     * @memberof HashMap
+     */
+    constructor(private readonly comparer: EqualityComparer<K>) {
+    }
+
+    get size(): number {
+        return this.ordered.size;
+    }
+
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+        return this.entries();
+    }
+
+    clear(): void {
+        this.buckets.clear();
+        this.ordered.clear();
+    }
+
+    delete(key: K): boolean {
+        const hash = this.comparer.hash(key);
+        const bucket = this.buckets.get(hash);
+        const index = bucket ? bucket.findIndex(x => this.comparer.equals(x.key, key)) : -1;
+        if (index < 0) {
+            return false;
+        }
+
+        this.ordered.delete(bucket[index]);
+        if (bucket.length === 1) {
+            this.buckets.delete(hash);
+        } else {
+            bucket.splice(index, 1);
+        }
+
+        return true;
+    }
+
+    *entries(): IterableIterator<[K, V]> {
+        for (const entry of this.ordered) {
+            yield [entry.key, entry.value];
+        }
+    }
+
+    forEach(callbackfn: (value: V, key: K, map: Map<K, V>) => void, thisArg?: any): void {
+        for (const entry of this.ordered) {
+            callbackfn.call(thisArg, entry.value, entry.key, this);
+        }
+    }
+
+    get(key: K): V | undefined {
+        const entry = this.find(key);
+        return entry ? entry.value : undefined;
+    }
+
+    has(key: K): boolean {
+        return !!this.find(key);
+    }
+
+    *keys(): IterableIterator<K> {
+        for (const entry of this.ordered) {
+            yield entry.key;
+        }
+    }
+
+    set(key: K, value: V): this {
+        const entry = this.find(key);
+        if (entry) {
+            entry.value = value;
+            return this;
+        }
+
+        const hash = this.comparer.hash(key);
+        const created = { key, value };
+        const bucket = this.buckets.get(hash);
+        if (bucket) {
+            bucket.push(created);
+        } else {
+            this.buckets.set(hash, [created]);
+        }
+
+        this.ordered.add(created);
+        return this;
+    }
+
+    *values(): IterableIterator<V> {
+        for (const entry of this.ordered) {
+            yield entry.value;
+        }
+    }
+
+    private find(key: K): Entry<K, V> | undefined {
+        const bucket = this.buckets.get(this.comparer.hash(key));
+        return bucket && bucket.find(x => this.comparer.equals(x.key, key));
+    }
+}
+
+/**
+ * @description A Set that compares values using an equality comparer. Values are iterated in insertion order.
+ * @export
+ * @class HashSet
+ * @implements {Set<T>}
+ * @template T
+ */
+export class HashSet<T> implements Set<T> {
+    readonly [Symbol.toStringTag]: string = 'HashSet';
+    private readonly map: HashMap<T, T>;
+
+    /**
+     * Creates an instance of HashSet.
+     * @param {EqualityComparer<T>} comparer The comparer used to compare values.
+     * @param {LibIterable<T>} [values] Optional initial values of the set.
+     * @memberof HashSet
+     */
+    constructor(comparer: EqualityComparer<T>, values?: LibIterable<T>) {
+        this.map = new HashMap<T, T>(comparer);
+        for (const value of values || []) {
+            this.add(value);
+        }
+    }
+
+    get size(): number {
+        return this.map.size;
+    }
+
+    [Symbol.iterator](): IterableIterator<T> {
+        return this.map.keys();
+    }
+
+    add(value: T): this {
+        if (!this.map.has(value)) {
+            this.map.set(value, value);
+        }
+
+        return this;
+    }
+
+    clear(): void {
+        this.map.clear();
+    }
+
+    delete(value: T): boolean {
+        return this.map.delete(value);
+    }
+
+    entries(): IterableIterator<[T, T]> {
+        return this.map.entries();
+    }
+
+    forEach(callbackfn: (value: T, value2: T, set: Set<T>) => void, thisArg?: any): void {
+        this.map.forEach(value => callbackfn.call(thisArg, value, value, this));
+    }
+
+    has(value: T): boolean {
+        return this.map.has(value);
+    }
+
+    keys(): IterableIterator<T> {
+        return this.map.keys();
+    }
+
+    values(): IterableIterator<T> {
+        return this.map.keys();
+    }
+}
+
+/**
+ * @description Creates a Map that compares keys using the specified comparer, or a native Map when there is none.
+ * @export
+ * @template K
+ * @template V
+ * @param {EqualityComparer<K>} [comparer] Optional comparer for keys.
+ * @returns {Map<K, V>}
+ */
+export function createMap<K, V>(comparer?: EqualityComparer<K>): Map<K, V> {
+    return comparer ? new HashMap<K, V>(comparer) : new Map<K, V>();
+}
+
+/**
+ * @description Creates a Set that compares values using the specified comparer, or a native Set when there is none.
+ * @export
+ * @template T
+ * @param {EqualityComparer<T>} [comparer] Optional comparer for values.
+ * @param {LibIterable<T>} [values] Optional initial values of the set.
+ * @returns {Set<T>}
+ */
+export function createSet<T>(comparer?: EqualityComparer<T>, values?: LibIterable<T>): Set<T> {
+    return comparer ? new HashSet<T>(comparer, values) : new Set<T>(values);
+}
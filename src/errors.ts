@@ -0,0 +1,163 @@
+/**
+ * @description Thrown when a required argument is null or undefined.
+ * @export
+ * @class ArgumentNullError
+ * @extends {ReferenceError}
+ */
+export class ArgumentNullError extends ReferenceError {
+    /**
+     * Creates an instance of ArgumentNullError.
+     * @param {string} argumentName The name of the invalid argument.
+     * @param {*} value The value of the invalid argument.
+     * @memberof ArgumentNullError
+     */
+    constructor(readonly argumentName: string, value: any) {
+        super(`Invalid ${argumentName}. ${argumentName} is ${value}`);
+        this.name = 'ArgumentNullError';
+    }
+}
+
+/**
+ * @description Thrown when an argument is outside of the range of allowed values.
+ * @export
+ * @class ArgumentOutOfRangeError
+ * @extends {RangeError}
+ */
+export class ArgumentOutOfRangeError extends RangeError {
+    /**
+     * Creates an instance of ArgumentOutOfRangeError.
+     * @param {string} argumentName The name of the invalid argument.
+     * @param {*} value The value of the invalid argument.
+     * @param {string} requirement Describes the allowed values, e.g. 'a positive integer'.
+     * @memberof ArgumentOutOfRangeError
+     */
+    constructor(readonly argumentName: string, value: any, requirement: string) {
+        super(`Invalid ${argumentName}. ${argumentName} must be ${requirement} but was ${value}`);
+        this.name = 'ArgumentOutOfRangeError';
+    }
+}
+
+/**
+ * @description Thrown when an operation requires at least one element but the sequence is empty, or no element
+ * matched the supplied filter.
+ * @export
+ * @class SequenceEmptyError
+ * @extends {Error}
+ */
+export class SequenceEmptyError extends Error {
+    constructor() {
+        super('Sequence contains no elements');
+        this.name = 'SequenceEmptyError';
+    }
+}
+
+/**
+ * @description Thrown when an operation requires a single element but the sequence, or the elements matching the
+ * supplied filter, contain more than one.
+ * @export
+ * @class MoreThanOneElementError
+ * @extends {Error}
+ */
+export class MoreThanOneElementError extends Error {
+    constructor() {
+        super('Sequence contains more than one element');
+        this.name = 'MoreThanOneElementError';
+    }
+}
+
+/**
+ * @description Thrown by operations that collect the errors of individual elements instead of failing on the first
+ * one, after all elements were processed.
+ * @export
+ * @class CompositeError
+ * @extends {Error}
+ */
+export class CompositeError extends Error {
+    /**
+     * Creates an instance of CompositeError.
+     * @param {any[]} errors The collected errors, in the order they occurred.
+     * @memberof CompositeError
+     */
+    constructor(readonly errors: any[]) {
+        super(`${errors.length} of the operations failed`);
+        this.name = 'CompositeError';
+    }
+}
+
+/**
+ * @description Thrown when a collection is built from a sequence that contains more than one element with the same
+ * key, and duplicates are not allowed.
+ * @export
+ * @class DuplicateKeyError
+ * @extends {Error}
+ */
+export class DuplicateKeyError extends Error {
+    /**
+     * Creates an instance of DuplicateKeyError.
+     * @param {*} key The duplicate key.
+     * @memberof DuplicateKeyError
+     */
+    constructor(readonly key: any) {
+        super(`Sequence contains duplicate key ${String(key)}`);
+        this.name = 'DuplicateKeyError';
+    }
+}
+
+/**
+ * @description Thrown when an operation did not complete within the allowed time.
+ * @export
+ * @class TimeoutError
+ * @extends {Error}
+ */
+export class TimeoutError extends Error {
+    /**
+     * Creates an instance of TimeoutError.
+     * @param {number} milliseconds The allowed time in milliseconds.
+     * @memberof TimeoutError
+     */
+    constructor(readonly milliseconds: number) {
+        super(`Operation timed out after ${milliseconds}ms`);
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * @description Thrown when an operation was cancelled using an AbortSignal.
+ * @export
+ * @class AbortError
+ * @extends {Error}
+ */
+export class AbortError extends Error {
+    /**
+     * Creates an instance of AbortError.
+     * @memberof AbortError
+     */
+    constructor() {
+        super('The operation was aborted');
+        this.name = 'AbortError';
+    }
+}
+
+/**
+ * @description Throws an ArgumentNullError when the value of an argument is null or undefined.
+ * @export
+ * @param {*} value The value of the argument.
+ * @param {string} argumentName The name of the argument.
+ */
+export function validateArgument(value: any, argumentName: string): void {
+    if (value == null) {
+        throw new ArgumentNullError(argumentName, value);
+    }
+}
+
+/**
+ * @description Throws an ArgumentOutOfRangeError when the value of an argument is not a non-negative integer.
+ * @export
+ * @param {number} value The value of the argument.
+ * @param {string} argumentName The name of the argument.
+ */
+export function validateCount(value: number, argumentName: string): void {
+    if (!Number.isInteger(value) || value < 0) {
+        throw new ArgumentOutOfRangeError(argumentName, value, 'a non-negative integer');
+    }
+}
@@ -1,5 +1,547 @@
+import { AsyncIterable } from './asyncIterable';
+import { Comparer, defaultComparer } from './comparers';
+import { dispose } from './disposal';
+import { createMap, createSet, defaultEqualityComparer, EqualityComparer } from './equality';
+import {
+    ArgumentOutOfRangeError,
+    DuplicateKeyError,
+    MoreThanOneElementError,
+    SequenceEmptyError,
+    validateArgument,
+    validateCount
+} from './errors';
+import { objectKeys, ObjectKeyOptions, ObjectPath, objectPaths } from './objects';
+import * as operators from './operators';
+import { UnaryFunction } from './operators';
+import { computeStatistics, Statistics } from './statistics';
+import { countItems, createStage, StageTrace, timeCallback, TraceHook } from './tracing';
 import LibIterable from './types';
 
+export { AsyncIterable, AsyncSource, ConcurrencyOptions, ErrorMode } from './asyncIterable';
+export { Comparer, defaultComparer, localeComparer } from './comparers';
+export {
+    caseInsensitiveEqualityComparer,
+    defaultEqualityComparer,
+    EqualityComparer,
+    HashMap,
+    HashSet,
+    structuralEqualityComparer,
+    tupleEqualityComparer
+} from './equality';
+export {
+    AbortError,
+    ArgumentNullError,
+    ArgumentOutOfRangeError,
+    CompositeError,
+    DuplicateKeyError,
+    MoreThanOneElementError,
+    SequenceEmptyError,
+    TimeoutError
+} from './errors';
+export {
+    aggregate,
+    concat,
+    count,
+    distinct,
+    distinctUntilChanged,
+    every,
+    filter,
+    finalize,
+    first,
+    items,
+    map,
+    mapMany,
+    Operator,
+    pairwise,
+    pipe,
+    runLengthDecode,
+    runLengthEncode,
+    scan,
+    skip,
+    skipWhile,
+    some,
+    take,
+    takeWhile,
+    tap,
+    UnaryFunction
+} from './operators';
+export { defaultScheduler, Scheduler, VirtualScheduler } from './scheduler';
+export { ObjectKeyOptions, ObjectPath } from './objects';
+export { Statistics } from './statistics';
+export { StageTrace, TraceHook } from './tracing';
+
+/**
+ * @description A key used by OrderedIterable to sort elements.
+ */
+export interface SortKey<T> {
+    selector: (item: T) => any;
+    comparer: Comparer<any>;
+    descending: boolean;
+}
+
+/**
+ * @description Determines how an element whose key was already seen is handled when building a collection. 'throw'
+ * throws a DuplicateKeyError, 'first' keeps the existing value, 'last' replaces it and a function merges the existing
+ * value with the new one.
+ */
+export type DuplicateKeyPolicy<K, V> = 'throw' | 'first' | 'last' | ((existing: V, value: V, key: K) => V);
+
+/**
+ * @description Determines how trailing windows that have fewer elements than the window size are handled.
+ * 'drop' discards them, 'keep' yields them as is and 'pad' fills them up to the window size with a padding value.
+ */
+export type PartialWindowMode = 'drop' | 'keep' | 'pad';
+
+/**
+ * @description Options for the chunk and window operations.
+ */
+export interface WindowOptions<T> {
+    partial?: PartialWindowMode;
+    padding?: T;
+}
+
+/**
+ * @description Determines whether a depth-first traversal yields a node before ('pre') or after ('post') its
+ * descendants.
+ */
+export type TraversalOrder = 'pre' | 'post';
+
+/**
+ * @description Options for the traversal factories.
+ */
+export interface TraversalOptions<T, K = T> {
+    /**
+     * Selects the identity of a node. When set, nodes whose key was already visited are skipped, which stops the
+     * traversal from following cycles in graphs.
+     */
+    key?: (node: T) => K;
+    /**
+     * Optional comparer for keys. Defaults to SameValueZero equality.
+     */
+    comparer?: EqualityComparer<K>;
+}
+
+/**
+ * @description Options for depth-first traversals.
+ */
+export interface DepthFirstOptions<T, K = T> extends TraversalOptions<T, K> {
+    /**
+     * Whether nodes are yielded before or after their descendants. Defaults to 'pre'.
+     */
+    order?: TraversalOrder;
+}
+
+/**
+ * @description A constructor of iterables, used by operators to create derived iterables.
+ */
+export type IterableSpecies = new <V>(source: LibIterable<V> | (() => LibIterable<V>)) => Iterable<V>;
+
+/**
+ * @description The type of the iterables that operators keeping the element type T, such as filter and take, derive
+ * from an iterable of type S. Subclasses keep their type, except groupings, lookups and ordered iterables, whose
+ * operators return plain iterables.
+ */
+export type Species<S, T> = S extends Grouping<any, any> | Lookup<any, any> | OrderedIterable<any> ? Iterable<T> : S;
+
+/**
+ * @description Options for the zipLongest operation.
+ */
+export interface ZipLongestOptions<R extends any[]> {
+    /**
+     * Values used in place of the elements of sources that are exhausted, by position in the result tuple.
+     */
+    fillValues?: Partial<R>;
+}
+
+function* sortItems<T>(source: LibIterable<T>, sortKeys: SortKey<T>[]): IterableIterator<T> {
+    const entries = [...source].map((item, index) => ({
+        item,
+        index,
+        keys: sortKeys.map(x => x.selector(item))
+    }));
+
+    // Ties are broken on the original index so the sort is stable regardless of the engine's sort implementation.
+    entries.sort((a, b) => {
+        for (let i = 0; i < sortKeys.length; i++) {
+            const result = sortKeys[i].comparer(a.keys[i], b.keys[i]);
+            if (result !== 0) {
+                return sortKeys[i].descending ? -result : result;
+            }
+        }
+
+        return a.index - b.index;
+    });
+
+    for (const entry of entries) {
+        yield entry.item;
+    }
+}
+
+function createSortKey<T, K>(
+    keySelector: (item: T) => K,
+    comparer: Comparer<K> | undefined,
+    descending: boolean
+): SortKey<T> {
+    validateArgument(keySelector, 'keySelector');
+    return { selector: keySelector, comparer: comparer || defaultComparer, descending };
+}
+
+function* windowItems<T>(
+    source: LibIterable<T>,
+    size: number,
+    step: number,
+    partial: PartialWindowMode,
+    padding: T
+): IterableIterator<T[]> {
+    let buffer: T[] = [];
+    let skip = 0;
+    for (const item of source) {
+        if (skip > 0) {
+            skip--;
+            continue;
+        }
+
+        buffer.push(item);
+        if (buffer.length === size) {
+            yield buffer.slice();
+            if (step >= size) {
+                buffer = [];
+                skip = step - size;
+            } else {
+                buffer = buffer.slice(step);
+            }
+        }
+    }
+
+    if (partial === 'drop') {
+        return;
+    }
+
+    while (buffer.length > 0) {
+        const window = buffer.slice();
+        while (partial === 'pad' && window.length < size) {
+            window.push(padding);
+        }
+
+        yield window;
+        buffer = buffer.slice(step);
+    }
+}
+
+function validateSize(value: number, name: string): void {
+    if (!Number.isInteger(value) || value < 1) {
+        throw new ArgumentOutOfRangeError(name, value, 'a positive integer');
+    }
+}
+
+function extremum<T, K>(
+    source: LibIterable<T>,
+    keySelector: (item: T, index: number) => K,
+    comparer: Comparer<K>,
+    direction: 1 | -1
+): T {
+    let found = false;
+    let result: T;
+    let resultKey: K;
+    let index = 0;
+    for (const item of source) {
+        const key = keySelector(item, index++);
+        if (!found || direction * comparer(key, resultKey) > 0) {
+            found = true;
+            result = item;
+            resultKey = key;
+        }
+    }
+
+    if (!found) {
+        throw new SequenceEmptyError();
+    }
+
+    return result;
+}
+
+function identity<T, K>(item: T): K {
+    return item as any as K;
+}
+
+function isIterable(value: any): value is LibIterable<any> {
+    return value != null && typeof value[Symbol.iterator] === 'function';
+}
+
+function closeIterators(iterators: Iterator<any>[], done: boolean[]): void {
+    iterators.forEach((iterator, index) => {
+        if (!done[index] && typeof iterator.return === 'function') {
+            iterator.return();
+        }
+    });
+}
+
+function* zipItems(sources: LibIterable<any>[], longest: boolean, fillValues: any[]): IterableIterator<any[]> {
+    const iterators: Iterator<any>[] = [];
+    const done: boolean[] = [];
+    try {
+        for (const source of sources) {
+            iterators.push(source[Symbol.iterator]());
+            done.push(false);
+        }
+
+        while (true) {
+            const tuple: any[] = [];
+            let active = 0;
+            for (let i = 0; i < iterators.length; i++) {
+                if (!done[i]) {
+                    const result = iterators[i].next();
+                    if (!result.done) {
+                        active++;
+                        tuple.push(result.value);
+                        continue;
+                    }
+
+                    done[i] = true;
+                }
+
+                if (!longest) {
+                    return;
+                }
+
+                tuple.push(fillValues[i]);
+            }
+
+            if (active === 0) {
+                return;
+            }
+
+            yield tuple;
+        }
+    } finally {
+        closeIterators(iterators, done);
+    }
+}
+
+// Sentinel used to tell a missing element apart from null or undefined elements.
+const missing: any = Symbol('missing');
+
+// The operators instrumented while tracing is enabled. Operators are only wrapped while it is enabled, so pipelines
+// built otherwise do not pay for tracing.
+const tracedOperators = [
+    'chunk',
+    'concat',
+    'distinct',
+    'distinctUntilChanged',
+    'filter',
+    'flatten',
+    'groupAdjacent',
+    'map',
+    'mapMany',
+    'pairwise',
+    'runLengthDecode',
+    'runLengthEncode',
+    'scan',
+    'skip',
+    'skipLast',
+    'skipWhile',
+    'splitWhen',
+    'take',
+    'takeLast',
+    'takeWhile',
+    'tap',
+    'window'
+];
+const untracedOperators = new Map<string, PropertyDescriptor>();
+const pipelineTraces = new WeakMap<Iterable<any>, StageTrace[]>();
+let traceHook: TraceHook | null = null;
+
+// Operators that are not traced themselves keep the traces of the operators applied before them.
+function inheritTraces<V>(parent: LibIterable<any>, derived: Iterable<V>): Iterable<V> {
+    const traces = pipelineTraces.get(parent as Iterable<any>);
+    if (traces) {
+        pipelineTraces.set(derived, traces);
+    }
+
+    return derived;
+}
+
+interface FusedStage {
+    filter: boolean;
+    fn: (item: any, index: number) => any;
+}
+
+// Runs consecutive map and filter stages in a single loop over their origin, instead of wrapping each stage in a
+// generator of its own. Each stage keeps its own index, so callbacks see the same indexes as unfused stages.
+class FusedSource<T> implements LibIterable<T> {
+    constructor(readonly origin: LibIterable<any>, readonly stages: FusedStage[]) {
+    }
+
+    *[Symbol.iterator](): Iterator<T> {
+        const { origin, stages } = this;
+        // A single stage, the most common case, does not need the bookkeeping of several stages.
+        if (stages.length === 1) {
+            const [{ filter, fn }] = stages;
+            let index = 0;
+            for (const item of origin) {
+                if (!filter) {
+                    yield fn(item, index++);
+                } else if (fn(item, index++)) {
+                    yield item;
+                }
+            }
+
+            return;
+        }
+
+        const indexes = stages.map(() => 0);
+        elements: for (const item of origin) {
+            let value = item;
+            for (let i = 0; i < stages.length; i++) {
+                const stage = stages[i];
+                if (!stage.filter) {
+                    value = stage.fn(value, indexes[i]++);
+                } else if (!stage.fn(value, indexes[i]++)) {
+                    continue elements;
+                }
+            }
+
+            yield value;
+        }
+    }
+}
+
+interface TraversalFrame<T> {
+    node: T;
+    depth: number;
+    children: Iterator<T> | null;
+}
+
+function createVisitor<T, K>(options: TraversalOptions<T, K>): (node: T) => boolean {
+    if (!options.key) {
+        return () => true;
+    }
+
+    const visited = createSet<K>(options.comparer);
+    return node => {
+        const key = options.key(node);
+        if (visited.has(key)) {
+            return false;
+        }
+
+        visited.add(key);
+        return true;
+    };
+}
+
+function closeNested(iterators: Iterator<any>[]): void {
+    // Inner iterators are closed before the iterators they were taken from.
+    for (let i = iterators.length - 1; i >= 0; i--) {
+        const iterator = iterators[i];
+        if (iterator && typeof iterator.return === 'function') {
+            iterator.return();
+        }
+    }
+}
+
+// Traversals keep their own stack or queue instead of recursing, so deep trees do not overflow the call stack.
+function* traverseDepthFirst<T, K>(
+    root: T,
+    children: (node: T, depth: number) => LibIterable<T> | null | undefined,
+    options: DepthFirstOptions<T, K>
+): IterableIterator<T> {
+    const postOrder = options.order === 'post';
+    const visit = createVisitor(options);
+    const stack: TraversalFrame<T>[] = [];
+    try {
+        // The root is always visited first, this only records its key.
+        visit(root);
+        stack.push({ node: root, depth: 0, children: null });
+        if (!postOrder) {
+            yield root;
+        }
+
+        while (stack.length > 0) {
+            const frame = stack[stack.length - 1];
+            // Children are selected only once the traversal descends, so pre-order consumers can stop before.
+            frame.children = frame.children || (children(frame.node, frame.depth) || [])[Symbol.iterator]();
+            const next = frame.children.next();
+            if (next.done) {
+                stack.pop();
+                if (postOrder) {
+                    yield frame.node;
+                }
+
+                continue;
+            }
+
+            if (visit(next.value)) {
+                stack.push({ node: next.value, depth: frame.depth + 1, children: null });
+                if (!postOrder) {
+                    yield next.value;
+                }
+            }
+        }
+    } finally {
+        closeNested(stack.map(x => x.children));
+    }
+}
+
+function* traverseBreadthFirst<T, K>(
+    root: T,
+    children: (node: T, depth: number) => LibIterable<T> | null | undefined,
+    options: TraversalOptions<T, K>
+): IterableIterator<T> {
+    const visit = createVisitor(options);
+    const queue: [T, number][] = [[root, 0]];
+    visit(root);
+    let head = 0;
+    while (head < queue.length) {
+        const [node, depth] = queue[head++];
+        // Dequeued entries are dropped in batches, which keeps dequeuing constant time.
+        if (head >= 1024 && head * 2 >= queue.length) {
+            queue.splice(0, head);
+            head = 0;
+        }
+
+        yield node;
+        for (const child of children(node, depth) || []) {
+            if (visit(child)) {
+                queue.push([child, depth + 1]);
+            }
+        }
+    }
+}
+
+function validateTraversalArguments(children: any, options: DepthFirstOptions<any, any>): void {
+    validateArgument(children, 'children');
+    validateArgument(options, 'options');
+    if (options.order !== undefined && options.order !== 'pre' && options.order !== 'post') {
+        throw new ArgumentOutOfRangeError('order', options.order, `'pre' or 'post'`);
+    }
+}
+
+function validateDuplicatePolicy(policy: DuplicateKeyPolicy<any, any>): void {
+    if (typeof policy !== 'function' && policy !== 'throw' && policy !== 'first' && policy !== 'last') {
+        throw new ArgumentOutOfRangeError('onDuplicate', policy, `'throw', 'first', 'last' or a function`);
+    }
+}
+
+function resolveDuplicate<K, V>(policy: DuplicateKeyPolicy<K, V>, key: K, existing: V, value: V): V {
+    switch (policy) {
+        case 'throw':
+            throw new DuplicateKeyError(key);
+        case 'first':
+            return existing;
+        case 'last':
+            return value;
+        default:
+            return policy(existing, value, key);
+    }
+}
+
+function validateJoinArguments(inner: any, outerKeySelector: any, innerKeySelector: any, resultSelector: any): void {
+    validateArgument(inner, 'inner');
+    validateArgument(outerKeySelector, 'outerKeySelector');
+    validateArgument(innerKeySelector, 'innerKeySelector');
+    validateArgument(resultSelector, 'resultSelector');
+}
+
 /**
  * @description Iterable wrapper that exposes functional operations to work with arrays, maps, sets and generic iterables
  * @export
@@ -9,209 +551,2198 @@ import LibIterable from './types';
  */
 export class Iterable<T> implements LibIterable<T> {
     /**
-     * Creates an instance of Iterable.
-     * @param {Iterable<T>} source The source iterable to use. This can be any object that supports
-     * the {Symbol.iterator} symbol, or a function that returns an Iterable (e.g., a generator)
+     * Creates an instance of Iterable.
+     * @param {Iterable<T>} source The source iterable to use. This can be any object that supports
+     * the {Symbol.iterator} symbol, or a function that returns an Iterable (e.g., a generator)
+     * @memberof Iterable
+     */
+    constructor(private readonly source: LibIterable<T> | (() => LibIterable<T>)) {
+    }
+
+    [Symbol.iterator](): Iterator<T> {
+        const src = this.source;
+        return (typeof src === 'function' ? src() : src)[Symbol.iterator]();
+    }
+
+    private derive<V>(source: LibIterable<V> | (() => LibIterable<V>)): Iterable<V> {
+        const species: IterableSpecies = (this.constructor as any)[Symbol.species];
+        return inheritTraces(this, new species(source));
+    }
+
+    private deriveSpecies(source: LibIterable<T> | (() => LibIterable<T>)): Species<this, T> {
+        return this.derive(source) as Species<this, T>;
+    }
+
+    // Subclasses overriding the iterator change the elements of their source, which then has to be enumerated.
+    private hasDefaultIterator(): boolean {
+        return this[Symbol.iterator] === Iterable.prototype[Symbol.iterator];
+    }
+
+    private rootSource(): LibIterable<T> | undefined {
+        if (!this.hasDefaultIterator()) {
+            return undefined;
+        }
+
+        const src = this.source;
+        if (src instanceof Iterable) {
+            return src.rootSource();
+        }
+
+        return typeof src === 'function' ? undefined : src;
+    }
+
+    private sourceSize(): number | undefined {
+        const root = this.rootSource();
+        if (Array.isArray(root)) {
+            return root.length;
+        }
+
+        return root instanceof Set || root instanceof Map ? root.size : undefined;
+    }
+
+    private arraySource(): T[] | undefined {
+        const root = this.rootSource();
+        return Array.isArray(root) ? root : undefined;
+    }
+
+    private fuse<V>(stage: FusedStage): Iterable<V> {
+        const src = this.source;
+        if (src instanceof FusedSource && this.hasDefaultIterator()) {
+            return this.derive<V>(new FusedSource<V>(src.origin, [...src.stages, stage]));
+        }
+
+        return this.derive<V>(new FusedSource<V>(this.arraySource() || this, [stage]));
+    }
+
+    /**
+     * @description Applies an accumulator function over the source, starting with the specified seed.
+     * @template A The type of the accumulated value.
+     * @param {A} seed The initial accumulated value.
+     * @param {(accumulated: A, item: T, index: number) => A} accumulator Computes the next accumulated value.
+     * @returns {A} The final accumulated value, or the seed when the source is empty.
+     * @memberof Iterable
+     */
+    aggregate<A>(seed: A, accumulator: (accumulated: A, item: T, index: number) => A): A {
+        return operators.aggregate(seed, accumulator)(this);
+    }
+
+    /**
+     * @description Computes the average of the numbers in the source, or of the numbers returned by a selector.
+     * A SequenceEmptyError is thrown when the source is empty.
+     * @param {(item: T, index: number) => number} [selector] Selector for the number of each element, which may be
+     * omitted when the elements are numbers.
+     * @returns {number}
+     * @memberof Iterable
+     */
+    average(this: Iterable<number>): number;
+    average(selector: (item: T, index: number) => number): number;
+    average(this: Iterable<any>, selector?: (item: any, index: number) => number): number {
+        let count = 0;
+        let sum = 0;
+        for (const value of selector ? operators.map(selector)(this) : this) {
+            sum += value;
+            count++;
+        }
+
+        if (count === 0) {
+            throw new SequenceEmptyError();
+        }
+
+        return sum / count;
+    }
+
+    /**
+     * @description Splits the source into arrays of the specified size. The last chunk contains the remaining
+     * elements and may be smaller, unless configured otherwise through the options.
+     * @param {number} size The number of elements in each chunk.
+     * @param {WindowOptions<T>} [options] Determines how a trailing partial chunk is handled. Defaults to 'keep'.
+     * @returns {Iterable<T[]>}
+     * @memberof Iterable
+     */
+    chunk(size: number, options: WindowOptions<T> = {}): Iterable<T[]> {
+        validateSize(size, 'size');
+        const src = this;
+        const { partial = 'keep', padding } = options;
+        return this.derive<T[]>(() => windowItems(src, size, size, partial, padding));
+    }
+
+    /**
+     * @description Gets the count of elements in the source iterable. The entire iterable is traversed to get the count,
+     * unless the source is an array, Set or Map whose size is known.
+     * @returns {number} The count of elements in the source iterable.
+     * @memberof Iterable
+     */
+    count(): number {
+        const size = this.sourceSize();
+        return size === undefined ? operators.count<T>()(this) : size;
+    }
+
+    /**
+     * @description Returns an iterable that repeats the elements of the source. Elements are buffered during the
+     * first pass, so the source is only enumerated once.
+     * @param {number} [times] The number of times to repeat the source. Repeats indefinitely when omitted.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    cycle(times?: number): Species<this, T> {
+        if (times !== undefined) {
+            validateCount(times, 'times');
+        }
+
+        const src = this;
+        return this.deriveSpecies(function* () {
+            if (times === 0) {
+                return;
+            }
+
+            const buffer: T[] = [];
+            for (const item of src) {
+                buffer.push(item);
+                yield item;
+            }
+
+            if (buffer.length === 0) {
+                return;
+            }
+
+            for (let pass = 1; times === undefined || pass < times; pass++) {
+                yield* buffer;
+            }
+        });
+    }
+
+    /**
+     * @description Returns an iterable containing only distinct entities found in the source iterable.
+     * @template K The type of the comparison key.
+     * @param {(item: T, index: number) => K} keySelector Selects the key used to compare elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Species<this, T>} Iterable containing distinct entities.
+     * @memberof Iterable
+     */
+    distinct<K>(keySelector: (item: T, index: number) => K, comparer?: EqualityComparer<K>): Species<this, T> {
+        return this.deriveSpecies(operators.distinct(keySelector, comparer)(this));
+    }
+
+    /**
+     * @description Returns an iterable of the elements whose key differs from the key of the element before them,
+     * which drops runs of repeated elements. Unlike distinct, only the previous key is kept in memory.
+     * @template K The type of the comparison key.
+     * @param {(item: T, index: number) => K} [keySelector] Optional selector for the key used to compare elements.
+     * Defaults to the elements themselves.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    distinctUntilChanged<K = T>(
+        keySelector?: (item: T, index: number) => K,
+        comparer?: EqualityComparer<K>
+    ): Species<this, T> {
+        return this.deriveSpecies(operators.distinctUntilChanged(keySelector, comparer)(this));
+    }
+
+    /**
+     * @description Gets the element at the specified position in the source. Array sources are indexed directly
+     * instead of being enumerated.
+     * @param {number} index The zero based position of the element.
+     * @returns {T} The element at the position, or null when the source has fewer elements.
+     * @memberof Iterable
+     */
+    elementAt(index: number): T {
+        validateCount(index, 'index');
+
+        const array = this.arraySource();
+        if (array) {
+            return index < array.length ? array[index] : null;
+        }
+
+        let position = 0;
+        for (const item of this) {
+            if (position++ === index) {
+                return item;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * @description Returns the distinct elements of the source whose keys do not appear in another iterable. The
+     * other iterable is buffered once per enumeration of the result.
+     * @template K The type of the comparison key.
+     * @param {LibIterable<T>} other The elements to exclude.
+     * @param {(item: T) => K} [keySelector] Optional selector for the key used to compare elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    except<K = T>(
+        other: LibIterable<T>,
+        keySelector: (item: T) => K = identity,
+        comparer?: EqualityComparer<K>
+    ): Species<this, T> {
+        validateArgument(other, 'other');
+        return this.exceptBy(operators.map((x: T) => keySelector(x))(other), keySelector, comparer);
+    }
+
+    /**
+     * @description Returns the distinct elements of the source whose keys do not appear in a collection of keys. The
+     * keys are buffered once per enumeration of the result.
+     * @template K The type of the comparison key.
+     * @param {LibIterable<K>} keys The keys to exclude.
+     * @param {(item: T) => K} keySelector Selects the key used to compare elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    exceptBy<K>(keys: LibIterable<K>, keySelector: (item: T) => K, comparer?: EqualityComparer<K>): Species<this, T> {
+        validateArgument(keys, 'keys');
+        validateArgument(keySelector, 'keySelector');
+        const src = this;
+        return this.deriveSpecies(function* () {
+            const excluded = createSet<K>(comparer, keys);
+            for (const item of src) {
+                const key = keySelector(item);
+                if (!excluded.has(key)) {
+                    excluded.add(key);
+                    yield item;
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Gets the traces of the operators that produced this iterable, in pipeline order. Only operators
+     * applied while tracing was enabled are recorded, see Iterable.enableTracing. Operators that are not traced, such
+     * as orderBy or union, keep the traces of the operators before them. The counts of each trace keep accumulating
+     * as the iterable is enumerated.
+     * @returns {StageTrace[]}
+     * @memberof Iterable
+     */
+    explain(): StageTrace[] {
+        return [...(pipelineTraces.get(this) || [])];
+    }
+
+    /**
+     * @description Returns an iterable that returns only filtered elements from the source. Consecutive filter and
+     * map stages are fused into a single loop over their source.
+     * @param {(item: T, index: number) => boolean} filter The filter to apply on the source.
+     * @returns {Species<this, T>} Iterable containing filtered entities.
+     * @memberof Iterable
+     */
+    filter(filter: (item: T, index: number) => boolean): Species<this, T> {
+        validateArgument(filter, 'filter');
+        return this.fuse<T>({ filter: true, fn: filter }) as Species<this, T>;
+    }
+
+    /**
+     * @description Returns an iterable that yields the elements of the source and invokes an action once an
+     * enumeration ends, whether it completed, was stopped early or failed. Useful to release resources held by the
+     * source.
+     * @param {() => void} action The action to invoke.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    finally(action: () => void): Species<this, T> {
+        return this.deriveSpecies(operators.finalize<T>(action)(this));
+    }
+
+    /**
+     * @description Gets the first element from the source iterable.
+     * @param {(item: T, index: number) => boolean} [filter] Optional filter applied to find the first matching element.
+     * @returns {T} The first element from the source iterable.
+     * @memberof Iterable
+     */
+    first(filter?: (item: T, index: number) => boolean): T {
+        return this.firstOrDefault(null, filter);
+    }
+
+    /**
+     * @description Gets the first element from the source iterable, or a default value when there is none.
+     * @param {T} defaultValue The value returned when the source is empty or no element matches the filter.
+     * @param {(item: T, index: number) => boolean} [filter] Optional filter applied to find the first matching element.
+     * @returns {T}
+     * @memberof Iterable
+     */
+    firstOrDefault(defaultValue: T, filter?: (item: T, index: number) => boolean): T {
+        const array = filter ? undefined : this.arraySource();
+        if (array) {
+            return array.length > 0 ? array[0] : defaultValue;
+        }
+
+        let index = 0;
+        for (const item of this) {
+            if (!filter || filter(item, index++)) {
+                return item;
+            }
+        }
+
+        return defaultValue;
+    }
+
+    /**
+     * @description Gets the first element from the source iterable. Unlike first, a SequenceEmptyError is thrown
+     * when the source is empty or no element matches the filter, so null elements can be told apart from no element.
+     * @param {(item: T, index: number) => boolean} [filter] Optional filter applied to find the first matching element.
+     * @returns {T}
+     * @memberof Iterable
+     */
+    firstOrThrow(filter?: (item: T, index: number) => boolean): T {
+        const result = this.firstOrDefault(missing, filter);
+        if (result === missing) {
+            throw new SequenceEmptyError();
+        }
+
+        return result;
+    }
+
+    /**
+     * @description Returns an iterable that yields the elements of nested iterables in place of those iterables, up
+     * to the specified depth. Strings are not flattened into their characters. Nested iterables are enumerated using
+     * a stack instead of recursion, so deeply nested sources do not overflow the call stack.
+     * @template V The type of the flattened elements.
+     * @param {number} [depth=Infinity] The number of nesting levels to flatten.
+     * @returns {Iterable<V>}
+     * @memberof Iterable
+     */
+    flatten<V = any>(depth: number = Infinity): Iterable<V> {
+        if (depth !== Infinity) {
+            validateCount(depth, 'depth');
+        }
+
+        const src = this;
+        return this.derive<V>(function* () {
+            const stack: Iterator<any>[] = [src[Symbol.iterator]()];
+            try {
+                while (stack.length > 0) {
+                    const next = stack[stack.length - 1].next();
+                    if (next.done) {
+                        stack.pop();
+                    } else if (stack.length <= depth && isIterable(next.value) && typeof next.value !== 'string') {
+                        stack.push(next.value[Symbol.iterator]());
+                    } else {
+                        yield next.value;
+                    }
+                }
+            } finally {
+                closeNested(stack);
+            }
+        });
+    }
+
+    /**
+     * @description Correlates the elements of the source with the elements of another iterable based on matching
+     * keys, including elements from both sides that have no match. Unmatched outer elements are paired with null
+     * and yielded in source order, followed by unmatched inner elements paired with null.
+     * @template TInner The type of the inner elements.
+     * @template K The type of the keys used for matching.
+     * @template R The type of the result elements.
+     * @param {LibIterable<TInner>} inner The iterable to join with the source.
+     * @param {(item: T, index: number) => K} outerKeySelector Selects the key of each source element.
+     * @param {(item: TInner, index: number) => K} innerKeySelector Selects the key of each inner element.
+     * @param {(outer: T | null, inner: TInner | null) => R} resultSelector Creates a result from a pair of elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Iterable<R>}
+     * @memberof Iterable
+     */
+    fullOuterJoin<TInner, K, R>(
+        inner: LibIterable<TInner>,
+        outerKeySelector: (item: T, index: number) => K,
+        innerKeySelector: (item: TInner, index: number) => K,
+        resultSelector: (outer: T | null, inner: TInner | null) => R,
+        comparer?: EqualityComparer<K>
+    ): Iterable<R> {
+        validateJoinArguments(inner, outerKeySelector, innerKeySelector, resultSelector);
+        const src = this;
+        return this.derive<R>(function* () {
+            const lookup = new Iterable(inner).toLookup(innerKeySelector, undefined, comparer);
+            const matched = createSet<K>(comparer);
+            let index = 0;
+            for (const item of src) {
+                const key = outerKeySelector(item, index++);
+                if (lookup.has(key)) {
+                    matched.add(key);
+                    for (const match of lookup.get(key)) {
+                        yield resultSelector(item, match);
+                    }
+                } else {
+                    yield resultSelector(item, null);
+                }
+            }
+
+            for (const grouping of lookup) {
+                if (!matched.has(grouping.key)) {
+                    for (const match of grouping) {
+                        yield resultSelector(null, match);
+                    }
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Groups runs of consecutive elements that have equal keys. Unlike groupBy, the source is enumerated
+     * lazily and a key appears once for each of its runs.
+     * @template K The type of the grouping key.
+     * @param {(item: T, index: number) => K} keySelector Selects the key for each element.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Iterable<Grouping<K, T>>} Iterable of groupings, each containing the key and the elements of a run.
+     * @memberof Iterable
+     */
+    groupAdjacent<K>(
+        keySelector: (item: T, index: number) => K,
+        comparer: EqualityComparer<K> = defaultEqualityComparer
+    ): Iterable<Grouping<K, T>> {
+        validateArgument(keySelector, 'keySelector');
+        validateArgument(comparer, 'comparer');
+        const src = this;
+        return this.derive<Grouping<K, T>>(function* () {
+            let key: K;
+            let run: T[] = [];
+            let index = 0;
+            for (const item of src) {
+                const itemKey = keySelector(item, index++);
+                if (run.length > 0 && !comparer.equals(key, itemKey)) {
+                    yield new Grouping(key, run);
+                    run = [];
+                }
+
+                if (run.length === 0) {
+                    key = itemKey;
+                }
+
+                run.push(item);
+            }
+
+            if (run.length > 0) {
+                yield new Grouping(key, run);
+            }
+        });
+    }
+
+    /**
+     * @description Groups the elements of the source by a key. Groups are returned in the order their keys were
+     * first seen. The source is enumerated when the returned iterable is enumerated.
+     * @template K The type of the grouping key.
+     * @param {(item: T, index: number) => K} keySelector Selects the key for each element.
+     * @param {(item: T, index: number) => E} [elementSelector] Optional projection applied to each grouped element.
+     * @param {(key: K, elements: Iterable<E>) => R} [resultSelector] Optional projection applied to each group.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Iterable<Grouping<K, T>>} Iterable of groupings, each containing the key and its elements.
+     * @memberof Iterable
+     */
+    groupBy<K>(
+        keySelector: (item: T, index: number) => K,
+        elementSelector?: undefined,
+        resultSelector?: undefined,
+        comparer?: EqualityComparer<K>
+    ): Iterable<Grouping<K, T>>;
+    groupBy<K, E>(
+        keySelector: (item: T, index: number) => K,
+        elementSelector: (item: T, index: number) => E,
+        resultSelector?: undefined,
+        comparer?: EqualityComparer<K>
+    ): Iterable<Grouping<K, E>>;
+    groupBy<K, E, R>(
+        keySelector: (item: T, index: number) => K,
+        elementSelector: (item: T, index: number) => E,
+        resultSelector: (key: K, elements: Iterable<E>) => R,
+        comparer?: EqualityComparer<K>
+    ): Iterable<R>;
+    groupBy<K, E, R>(
+        keySelector: (item: T, index: number) => K,
+        elementSelector?: (item: T, index: number) => E,
+        resultSelector?: (key: K, elements: Iterable<E>) => R,
+        comparer?: EqualityComparer<K>
+    ): Iterable<Grouping<K, E> | R> {
+        validateArgument(keySelector, 'keySelector');
+        const src = this;
+        return this.derive<Grouping<K, E> | R>(function* () {
+            for (const grouping of src.toLookup(keySelector, elementSelector, comparer)) {
+                yield resultSelector ? resultSelector(grouping.key, grouping) : grouping;
+            }
+        });
+    }
+
+    /**
+     * @description Correlates the elements of the source with the group of matching elements from another iterable.
+     * Every source element is yielded, with an empty group when there are no matches.
+     * @template TInner The type of the inner elements.
+     * @template K The type of the keys used for matching.
+     * @template R The type of the result elements.
+     * @param {LibIterable<TInner>} inner The iterable to join with the source.
+     * @param {(item: T, index: number) => K} outerKeySelector Selects the key of each source element.
+     * @param {(item: TInner, index: number) => K} innerKeySelector Selects the key of each inner element.
+     * @param {(outer: T, inners: Iterable<TInner>) => R} resultSelector Creates a result from a source element and
+     * its matching inner elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Iterable<R>}
+     * @memberof Iterable
+     */
+    groupJoin<TInner, K, R>(
+        inner: LibIterable<TInner>,
+        outerKeySelector: (item: T, index: number) => K,
+        innerKeySelector: (item: TInner, index: number) => K,
+        resultSelector: (outer: T, inners: Iterable<TInner>) => R,
+        comparer?: EqualityComparer<K>
+    ): Iterable<R> {
+        validateJoinArguments(inner, outerKeySelector, innerKeySelector, resultSelector);
+        const src = this;
+        return this.derive<R>(function* () {
+            const lookup = new Iterable(inner).toLookup(innerKeySelector, undefined, comparer);
+            let index = 0;
+            for (const item of src) {
+                yield resultSelector(item, lookup.get(outerKeySelector(item, index++)));
+            }
+        });
+    }
+
+    /**
+     * @description Returns an iterable that alternates between the elements of the source and those of other
+     * iterables in a round-robin fashion. Exhausted sources are skipped until every source is exhausted.
+     * @param {...LibIterable<T>[]} others The iterables to interleave with the source.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    interleave(...others: LibIterable<T>[]): Species<this, T> {
+        others.forEach((other, index) => validateArgument(other, `others[${index}]`));
+        const src = this;
+        return this.deriveSpecies(function* () {
+            const iterators: Iterator<T>[] = [];
+            const done: boolean[] = [];
+            try {
+                for (const source of [src, ...others]) {
+                    iterators.push(source[Symbol.iterator]());
+                    done.push(false);
+                }
+
+                let active = iterators.length;
+                while (active > 0) {
+                    for (let i = 0; i < iterators.length; i++) {
+                        if (done[i]) {
+                            continue;
+                        }
+
+                        const result = iterators[i].next();
+                        if (result.done) {
+                            done[i] = true;
+                            active--;
+                        } else {
+                            yield result.value;
+                        }
+                    }
+                }
+            } finally {
+                closeIterators(iterators, done);
+            }
+        });
+    }
+
+    /**
+     * @description Returns the distinct elements of the source whose keys also appear in another iterable. The
+     * other iterable is buffered once per enumeration of the result.
+     * @template K The type of the comparison key.
+     * @param {LibIterable<T>} other The elements to intersect with.
+     * @param {(item: T) => K} [keySelector] Optional selector for the key used to compare elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    intersect<K = T>(
+        other: LibIterable<T>,
+        keySelector: (item: T) => K = identity,
+        comparer?: EqualityComparer<K>
+    ): Species<this, T> {
+        validateArgument(other, 'other');
+        return this.intersectBy(operators.map((x: T) => keySelector(x))(other), keySelector, comparer);
+    }
+
+    /**
+     * @description Returns the distinct elements of the source whose keys appear in a collection of keys. The keys
+     * are buffered once per enumeration of the result.
+     * @template K The type of the comparison key.
+     * @param {LibIterable<K>} keys The keys to intersect with.
+     * @param {(item: T) => K} keySelector Selects the key used to compare elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    intersectBy<K>(
+        keys: LibIterable<K>,
+        keySelector: (item: T) => K,
+        comparer?: EqualityComparer<K>
+    ): Species<this, T> {
+        validateArgument(keys, 'keys');
+        validateArgument(keySelector, 'keySelector');
+        const src = this;
+        return this.deriveSpecies(function* () {
+            const remaining = createSet<K>(comparer, keys);
+            for (const item of src) {
+                // Removing a key once it is matched keeps the results distinct.
+                if (remaining.delete(keySelector(item))) {
+                    yield item;
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Gets an array of items from the source iterable.
+     * @returns {T[]} Array of items from the source.
+     * @memberof Iterable
+     */
+    items(): T[] {
+        return this.toArray();
+    }
+
+    /**
+     * @description Correlates the elements of the source with the elements of another iterable based on matching
+     * keys. Only pairs with matching keys are yielded. Keys are compared using the same semantics as a Map. The
+     * inner iterable is buffered once per enumeration of the result.
+     * @template TInner The type of the inner elements.
+     * @template K The type of the keys used for matching.
+     * @template R The type of the result elements.
+     * @param {LibIterable<TInner>} inner The iterable to join with the source.
+     * @param {(item: T, index: number) => K} outerKeySelector Selects the key of each source element.
+     * @param {(item: TInner, index: number) => K} innerKeySelector Selects the key of each inner element.
+     * @param {(outer: T, inner: TInner) => R} resultSelector Creates a result from a pair of matching elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Iterable<R>}
+     * @memberof Iterable
+     */
+    join<TInner, K, R>(
+        inner: LibIterable<TInner>,
+        outerKeySelector: (item: T, index: number) => K,
+        innerKeySelector: (item: TInner, index: number) => K,
+        resultSelector: (outer: T, inner: TInner) => R,
+        comparer?: EqualityComparer<K>
+    ): Iterable<R> {
+        validateJoinArguments(inner, outerKeySelector, innerKeySelector, resultSelector);
+        const src = this;
+        return this.derive<R>(function* () {
+            const lookup = new Iterable(inner).toLookup(innerKeySelector, undefined, comparer);
+            let index = 0;
+            for (const item of src) {
+                for (const match of lookup.get(outerKeySelector(item, index++))) {
+                    yield resultSelector(item, match);
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Joins the elements of the source into a string. Null and undefined elements are converted to empty
+     * strings, like Array.prototype.join does.
+     * @param {string} [separator=','] The string placed between elements.
+     * @param {string} [prefix=''] The string placed before the first element.
+     * @param {string} [suffix=''] The string placed after the last element.
+     * @param {number} [limit] Optional maximum number of elements to include. When the source has more elements, the
+     * truncation marker is appended in their place and the source is not enumerated further.
+     * @param {string} [truncated='...'] The marker appended when elements were omitted because of the limit.
+     * @returns {string}
+     * @memberof Iterable
+     */
+    joinToString(
+        separator: string = ',',
+        prefix: string = '',
+        suffix: string = '',
+        limit?: number,
+        truncated: string = '...'
+    ): string {
+        if (limit !== undefined) {
+            validateCount(limit, 'limit');
+        }
+
+        const parts: string[] = [];
+        for (const item of this) {
+            if (parts.length === limit) {
+                parts.push(truncated);
+                break;
+            }
+
+            parts.push(item == null ? '' : String(item));
+        }
+
+        return prefix + parts.join(separator) + suffix;
+    }
+
+    /**
+     * @description Gets the last element from the source iterable. Without a filter, array sources are read from
+     * the end instead of being enumerated. The filter is always invoked for every element, in order.
+     * @param {(item: T, index: number) => boolean} [filter] Optional filter applied to find the last matching element.
+     * @returns {T} The last element from the source iterable, or null when there is none.
+     * @memberof Iterable
+     */
+    last(filter?: (item: T, index: number) => boolean): T {
+        const array = filter ? undefined : this.arraySource();
+        if (array) {
+            return array.length > 0 ? array[array.length - 1] : null;
+        }
+
+        let result: T = null;
+        let index = 0;
+        for (const item of this) {
+            if (!filter || filter(item, index++)) {
+                result = item;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * @description Correlates the elements of the source with the elements of another iterable based on matching
+     * keys. Every source element is yielded, paired with null when it has no match.
+     * @template TInner The type of the inner elements.
+     * @template K The type of the keys used for matching.
+     * @template R The type of the result elements.
+     * @param {LibIterable<TInner>} inner The iterable to join with the source.
+     * @param {(item: T, index: number) => K} outerKeySelector Selects the key of each source element.
+     * @param {(item: TInner, index: number) => K} innerKeySelector Selects the key of each inner element.
+     * @param {(outer: T, inner: TInner | null) => R} resultSelector Creates a result from a pair of elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Iterable<R>}
+     * @memberof Iterable
+     */
+    leftJoin<TInner, K, R>(
+        inner: LibIterable<TInner>,
+        outerKeySelector: (item: T, index: number) => K,
+        innerKeySelector: (item: TInner, index: number) => K,
+        resultSelector: (outer: T, inner: TInner | null) => R,
+        comparer?: EqualityComparer<K>
+    ): Iterable<R> {
+        validateJoinArguments(inner, outerKeySelector, innerKeySelector, resultSelector);
+        const src = this;
+        return this.derive<R>(function* () {
+            const lookup = new Iterable(inner).toLookup(innerKeySelector, undefined, comparer);
+            let index = 0;
+            for (const item of src) {
+                const key = outerKeySelector(item, index++);
+                if (lookup.has(key)) {
+                    for (const match of lookup.get(key)) {
+                        yield resultSelector(item, match);
+                    }
+                } else {
+                    yield resultSelector(item, null);
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Calls a callback for each item in the source and returns the returned value from the callback.
+     * Consecutive map and filter stages are fused into a single loop over their source.
+     * @template V
+     * @param {(item: T, index: number) => V} selector The callback function to invoke for each element in the source.
+     * @returns {Iterable<V>}
+     * @memberof Iterable
+     */
+    map<V>(selector: (item: T, index: number) => V): Iterable<V> {
+        validateArgument(selector, 'selector');
+        return this.fuse<V>({ filter: false, fn: selector });
+    }
+
+    /**
+     * @description Calls a callback for each item in the source and returns individual result values from the callback.
+     * @template V
+     * @param {(item: T, index: number) => Iterable<V>} selector The callback function to invoke for each element in the source.
+     * @returns {Iterable<V>}
+     * @memberof Iterable
+     */
+    mapMany<V>(selector: (item: T, index: number) => LibIterable<V>): Iterable<V> {
+        return this.derive(operators.mapMany(selector)(this));
+    }
+
+    /**
+     * @description Gets the largest element in the source, or the largest value returned by a selector.
+     * A SequenceEmptyError is thrown when the source is empty.
+     * @template V The type of the compared values.
+     * @param {(item: T, index: number) => V} [selector] Optional selector for the value of each element.
+     * @param {Comparer<V>} [comparer] Optional comparer for values. Defaults to comparing with relational operators.
+     * @returns {V}
+     * @memberof Iterable
+     */
+    max(): T;
+    max<V>(selector: (item: T, index: number) => V, comparer?: Comparer<V>): V;
+    max<V>(
+        this: Iterable<any>,
+        selector?: (item: any, index: number) => V,
+        comparer: Comparer<V> = defaultComparer
+    ): V {
+        const values = selector ? operators.map(selector)(this) : this;
+        return extremum(values, identity, comparer, 1);
+    }
+
+    /**
+     * @description Gets the element with the largest key. The first such element is returned when several share
+     * the largest key. A SequenceEmptyError is thrown when the source is empty.
+     * @template K The type of the compared keys.
+     * @param {(item: T, index: number) => K} keySelector Selects the key of each element.
+     * @param {Comparer<K>} [comparer] Optional comparer for keys. Defaults to comparing with relational operators.
+     * @returns {T}
+     * @memberof Iterable
+     */
+    maxBy<K>(keySelector: (item: T, index: number) => K, comparer: Comparer<K> = defaultComparer): T {
+        validateArgument(keySelector, 'keySelector');
+        return extremum(this, keySelector, comparer, 1);
+    }
+
+    /**
+     * @description Returns an iterable that caches elements as they are first pulled from the source. Repeated and
+     * interleaved enumerations of the returned iterable share a single pass over the source, which makes one-shot
+     * sources such as generator objects safe to enumerate more than once. The source is not closed when an
+     * enumeration stops early, so that other enumerations can continue from where it left off.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    memoize(): Species<this, T> {
+        const src = this;
+        const buffer: T[] = [];
+        let iterator: Iterator<T>;
+        let done = false;
+        let failed = false;
+        let error: any;
+        return this.deriveSpecies(function* () {
+            for (let index = 0; ; index++) {
+                if (index >= buffer.length) {
+                    if (failed) {
+                        throw error;
+                    }
+
+                    if (done) {
+                        return;
+                    }
+
+                    try {
+                        iterator = iterator || src[Symbol.iterator]();
+                        const result = iterator.next();
+                        if (result.done) {
+                            done = true;
+                            return;
+                        }
+
+                        buffer.push(result.value);
+                    } catch (e) {
+                        failed = true;
+                        error = e;
+                        throw e;
+                    }
+                }
+
+                yield buffer[index];
+            }
+        });
+    }
+
+    /**
+     * @description Gets the smallest element in the source, or the smallest value returned by a selector.
+     * A SequenceEmptyError is thrown when the source is empty.
+     * @template V The type of the compared values.
+     * @param {(item: T, index: number) => V} [selector] Optional selector for the value of each element.
+     * @param {Comparer<V>} [comparer] Optional comparer for values. Defaults to comparing with relational operators.
+     * @returns {V}
+     * @memberof Iterable
+     */
+    min(): T;
+    min<V>(selector: (item: T, index: number) => V, comparer?: Comparer<V>): V;
+    min<V>(
+        this: Iterable<any>,
+        selector?: (item: any, index: number) => V,
+        comparer: Comparer<V> = defaultComparer
+    ): V {
+        const values = selector ? operators.map(selector)(this) : this;
+        return extremum(values, identity, comparer, -1);
+    }
+
+    /**
+     * @description Gets the element with the smallest key. The first such element is returned when several share
+     * the smallest key. A SequenceEmptyError is thrown when the source is empty.
+     * @template K The type of the compared keys.
+     * @param {(item: T, index: number) => K} keySelector Selects the key of each element.
+     * @param {Comparer<K>} [comparer] Optional comparer for keys. Defaults to comparing with relational operators.
+     * @returns {T}
+     * @memberof Iterable
+     */
+    minBy<K>(keySelector: (item: T, index: number) => K, comparer: Comparer<K> = defaultComparer): T {
+        validateArgument(keySelector, 'keySelector');
+        return extremum(this, keySelector, comparer, -1);
+    }
+
+    /**
+     * @description Sorts the elements of the source in ascending order by a key. The sort is stable and is
+     * deferred until the returned iterable is enumerated.
+     * @template K The type of the sort key.
+     * @param {(item: T) => K} keySelector Selects the sort key of each element.
+     * @param {Comparer<K>} [comparer] Optional comparer for keys. Defaults to comparing with relational operators.
+     * @returns {OrderedIterable<T>} Ordered iterable that can be further sorted with thenBy / thenByDescending.
+     * @memberof Iterable
+     */
+    orderBy<K>(keySelector: (item: T) => K, comparer?: Comparer<K>): OrderedIterable<T> {
+        return new OrderedIterable<T>(this, [createSortKey(keySelector, comparer, false)]);
+    }
+
+    /**
+     * @description Sorts the elements of the source in descending order by a key. The sort is stable and is
+     * deferred until the returned iterable is enumerated.
+     * @template K The type of the sort key.
+     * @param {(item: T) => K} keySelector Selects the sort key of each element.
+     * @param {Comparer<K>} [comparer] Optional comparer for keys. Defaults to comparing with relational operators.
+     * @returns {OrderedIterable<T>} Ordered iterable that can be further sorted with thenBy / thenByDescending.
+     * @memberof Iterable
+     */
+    orderByDescending<K>(keySelector: (item: T) => K, comparer?: Comparer<K>): OrderedIterable<T> {
+        return new OrderedIterable<T>(this, [createSortKey(keySelector, comparer, true)]);
+    }
+
+    /**
+     * @description Returns an iterable of each element paired with the element that follows it.
+     * @returns {Iterable<[T, T]>}
+     * @memberof Iterable
+     */
+    pairwise(): Iterable<[T, T]> {
+        return this.derive(operators.pairwise<T>()(this));
+    }
+
+    /**
+     * @description Eagerly splits the source into the elements that satisfy a predicate and those that do not.
+     * @param {(item: T, index: number) => boolean} predicate The test applied to each element.
+     * @returns {[Species<this, T>, Species<this, T>]} A tuple of the matching elements and the rest.
+     * @memberof Iterable
+     */
+    partition(predicate: (item: T, index: number) => boolean): [Species<this, T>, Species<this, T>] {
+        validateArgument(predicate, 'predicate');
+        const matching: T[] = [];
+        const rest: T[] = [];
+        let index = 0;
+        for (const item of this) {
+            (predicate(item, index++) ? matching : rest).push(item);
+        }
+
+        return [this.deriveSpecies(matching), this.deriveSpecies(rest)];
+    }
+
+    /**
+     * @description Passes the iterable through a sequence of operators, each receiving the result of the previous
+     * one. Operators are plain functions, such as those exported alongside the Iterable class, so custom operators
+     * can be written without subclassing.
+     * @param {...UnaryFunction<any, any>[]} ops The operators to apply, in order.
+     * @returns {*} The result of the last operator, or the iterable itself when there are no operators.
+     * @memberof Iterable
+     */
+    pipe(): this;
+    pipe<B>(op1: UnaryFunction<this, B>): B;
+    pipe<B, C>(op1: UnaryFunction<this, B>, op2: UnaryFunction<B, C>): C;
+    pipe<B, C, D>(op1: UnaryFunction<this, B>, op2: UnaryFunction<B, C>, op3: UnaryFunction<C, D>): D;
+    pipe<B, C, D, E>(
+        op1: UnaryFunction<this, B>,
+        op2: UnaryFunction<B, C>,
+        op3: UnaryFunction<C, D>,
+        op4: UnaryFunction<D, E>
+    ): E;
+    pipe<B, C, D, E, F>(
+        op1: UnaryFunction<this, B>,
+        op2: UnaryFunction<B, C>,
+        op3: UnaryFunction<C, D>,
+        op4: UnaryFunction<D, E>,
+        op5: UnaryFunction<E, F>
+    ): F;
+    pipe<B, C, D, E, F, G>(
+        op1: UnaryFunction<this, B>,
+        op2: UnaryFunction<B, C>,
+        op3: UnaryFunction<C, D>,
+        op4: UnaryFunction<D, E>,
+        op5: UnaryFunction<E, F>,
+        op6: UnaryFunction<F, G>
+    ): G;
+    pipe<B, C, D, E, F, G, H>(
+        op1: UnaryFunction<this, B>,
+        op2: UnaryFunction<B, C>,
+        op3: UnaryFunction<C, D>,
+        op4: UnaryFunction<D, E>,
+        op5: UnaryFunction<E, F>,
+        op6: UnaryFunction<F, G>,
+        op7: UnaryFunction<G, H>
+    ): H;
+    pipe<B, C, D, E, F, G, H, I>(
+        op1: UnaryFunction<this, B>,
+        op2: UnaryFunction<B, C>,
+        op3: UnaryFunction<C, D>,
+        op4: UnaryFunction<D, E>,
+        op5: UnaryFunction<E, F>,
+        op6: UnaryFunction<F, G>,
+        op7: UnaryFunction<G, H>,
+        op8: UnaryFunction<H, I>
+    ): I;
+    pipe<B, C, D, E, F, G, H, I, J>(
+        op1: UnaryFunction<this, B>,
+        op2: UnaryFunction<B, C>,
+        op3: UnaryFunction<C, D>,
+        op4: UnaryFunction<D, E>,
+        op5: UnaryFunction<E, F>,
+        op6: UnaryFunction<F, G>,
+        op7: UnaryFunction<G, H>,
+        op8: UnaryFunction<H, I>,
+        op9: UnaryFunction<I, J>
+    ): J;
+    pipe<B, C, D, E, F, G, H, I, J, K>(
+        op1: UnaryFunction<this, B>,
+        op2: UnaryFunction<B, C>,
+        op3: UnaryFunction<C, D>,
+        op4: UnaryFunction<D, E>,
+        op5: UnaryFunction<E, F>,
+        op6: UnaryFunction<F, G>,
+        op7: UnaryFunction<G, H>,
+        op8: UnaryFunction<H, I>,
+        op9: UnaryFunction<I, J>,
+        op10: UnaryFunction<J, K>
+    ): K;
+    pipe<B, C, D, E, F, G, H, I, J, K, L>(
+        op1: UnaryFunction<this, B>,
+        op2: UnaryFunction<B, C>,
+        op3: UnaryFunction<C, D>,
+        op4: UnaryFunction<D, E>,
+        op5: UnaryFunction<E, F>,
+        op6: UnaryFunction<F, G>,
+        op7: UnaryFunction<G, H>,
+        op8: UnaryFunction<H, I>,
+        op9: UnaryFunction<I, J>,
+        op10: UnaryFunction<J, K>,
+        op11: UnaryFunction<K, L>
+    ): L;
+    pipe<B, C, D, E, F, G, H, I, J, K, L, M>(
+        op1: UnaryFunction<this, B>,
+        op2: UnaryFunction<B, C>,
+        op3: UnaryFunction<C, D>,
+        op4: UnaryFunction<D, E>,
+        op5: UnaryFunction<E, F>,
+        op6: UnaryFunction<F, G>,
+        op7: UnaryFunction<G, H>,
+        op8: UnaryFunction<H, I>,
+        op9: UnaryFunction<I, J>,
+        op10: UnaryFunction<J, K>,
+        op11: UnaryFunction<K, L>,
+        op12: UnaryFunction<L, M>
+    ): M;
+    pipe(...ops: UnaryFunction<any, any>[]): any;
+    pipe(...ops: UnaryFunction<any, any>[]): any {
+        return operators.pipe(this, ...ops);
+    }
+
+    /**
+     * @description Returns the cartesian product of the source and other iterables as tuples. The product is
+     * enumerated lazily, with the last iterable varying fastest. The other iterables are buffered once per
+     * enumeration of the result.
+     * @param {...LibIterable<any>[]} others The iterables to combine with the source.
+     * @returns {Iterable<any[]>}
+     * @memberof Iterable
+     */
+    product<A>(a: LibIterable<A>): Iterable<[T, A]>;
+    product<A, B>(a: LibIterable<A>, b: LibIterable<B>): Iterable<[T, A, B]>;
+    product<A, B, C>(a: LibIterable<A>, b: LibIterable<B>, c: LibIterable<C>): Iterable<[T, A, B, C]>;
+    product(...others: LibIterable<any>[]): Iterable<any[]>;
+    product(...others: LibIterable<any>[]): Iterable<any[]> {
+        others.forEach((other, index) => validateArgument(other, `others[${index}]`));
+        const src = this;
+        return this.derive<any[]>(function* () {
+            const buffers = others.map(x => [...x]);
+            if (buffers.some(x => x.length === 0)) {
+                return;
+            }
+
+            for (const item of src) {
+                const positions = buffers.map(() => 0);
+                while (true) {
+                    yield [item, ...positions.map((position, i) => buffers[i][position])];
+
+                    // Advance the positions like an odometer, with the last buffer varying fastest.
+                    let i = positions.length - 1;
+                    while (i >= 0 && ++positions[i] === buffers[i].length) {
+                        positions[i--] = 0;
+                    }
+
+                    if (i < 0) {
+                        break;
+                    }
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Correlates the elements of another iterable with the elements of the source based on matching
+     * keys. Every inner element is yielded in its original order, paired with null when it has no match. The source
+     * is buffered once per enumeration of the result.
+     * @template TInner The type of the inner elements.
+     * @template K The type of the keys used for matching.
+     * @template R The type of the result elements.
+     * @param {LibIterable<TInner>} inner The iterable to join with the source.
+     * @param {(item: T, index: number) => K} outerKeySelector Selects the key of each source element.
+     * @param {(item: TInner, index: number) => K} innerKeySelector Selects the key of each inner element.
+     * @param {(outer: T | null, inner: TInner) => R} resultSelector Creates a result from a pair of elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Iterable<R>}
+     * @memberof Iterable
+     */
+    rightJoin<TInner, K, R>(
+        inner: LibIterable<TInner>,
+        outerKeySelector: (item: T, index: number) => K,
+        innerKeySelector: (item: TInner, index: number) => K,
+        resultSelector: (outer: T | null, inner: TInner) => R,
+        comparer?: EqualityComparer<K>
+    ): Iterable<R> {
+        validateJoinArguments(inner, outerKeySelector, innerKeySelector, resultSelector);
+        const src = this;
+        return this.derive<R>(function* () {
+            const lookup = src.toLookup(outerKeySelector, undefined, comparer);
+            let index = 0;
+            for (const item of inner) {
+                const key = innerKeySelector(item, index++);
+                if (lookup.has(key)) {
+                    for (const match of lookup.get(key)) {
+                        yield resultSelector(match, item);
+                    }
+                } else {
+                    yield resultSelector(null, item);
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Expands [element, count] pairs into the element repeated count times. It is the inverse of
+     * runLengthEncode.
+     * @returns {Iterable<V>}
+     * @memberof Iterable
+     */
+    runLengthDecode<V>(this: Iterable<[V, number]>): Iterable<V> {
+        return this.derive(operators.runLengthDecode<V>()(this));
+    }
+
+    /**
+     * @description Collapses runs of consecutive equal elements into [element, count] pairs, where the element is
+     * the first of its run.
+     * @param {EqualityComparer<T>} [comparer] Optional comparer for elements. Defaults to SameValueZero equality.
+     * @returns {Iterable<[T, number]>}
+     * @memberof Iterable
+     */
+    runLengthEncode(comparer?: EqualityComparer<T>): Iterable<[T, number]> {
+        return this.derive(operators.runLengthEncode(comparer)(this));
+    }
+
+    /**
+     * @description Applies an accumulator function over the source and yields each intermediate result, such as
+     * running totals.
+     * @template A The type of the accumulated value.
+     * @param {A} seed The initial value of the accumulator. It is not yielded itself.
+     * @param {(accumulated: A, item: T, index: number) => A} accumulator The accumulator function.
+     * @returns {Iterable<A>}
+     * @memberof Iterable
+     */
+    scan<A>(seed: A, accumulator: (accumulated: A, item: T, index: number) => A): Iterable<A> {
+        return this.derive(operators.scan(seed, accumulator)(this));
+    }
+
+    /**
+     * @description Gets the only element of the source, or the only element that matches a filter. A
+     * SequenceEmptyError is thrown when there is no such element and a MoreThanOneElementError when there is more
+     * than one.
+     * @param {(item: T, index: number) => boolean} [filter] Optional filter applied to find the element.
+     * @returns {T}
+     * @memberof Iterable
+     */
+    single(filter?: (item: T, index: number) => boolean): T {
+        const result = this.singleOrDefault(missing, filter);
+        if (result === missing) {
+            throw new SequenceEmptyError();
+        }
+
+        return result;
+    }
+
+    /**
+     * @description Gets the only element of the source, or the only element that matches a filter, or a default
+     * value when there is no such element. A MoreThanOneElementError is thrown when there is more than one.
+     * @param {T} defaultValue The value returned when the source is empty or no element matches the filter.
+     * @param {(item: T, index: number) => boolean} [filter] Optional filter applied to find the element.
+     * @returns {T}
+     * @memberof Iterable
+     */
+    singleOrDefault(defaultValue: T, filter?: (item: T, index: number) => boolean): T {
+        let found = false;
+        let result = defaultValue;
+        let index = 0;
+        for (const item of this) {
+            if (!filter || filter(item, index++)) {
+                if (found) {
+                    throw new MoreThanOneElementError();
+                }
+
+                found = true;
+                result = item;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * @description Returns an iterable that bypasses the specified number of elements and yields the rest.
+     * @param {number} count The number of elements to skip.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    skip(count: number): Species<this, T> {
+        return this.deriveSpecies(operators.skip<T>(count)(this));
+    }
+
+    /**
+     * @description Returns an iterable that omits the specified number of elements from the end of the source.
+     * Only that many elements are buffered at a time.
+     * @param {number} count The number of elements to omit from the end.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    skipLast(count: number): Species<this, T> {
+        validateCount(count, 'count');
+        const src = this;
+        return this.deriveSpecies(function* () {
+            if (count === 0) {
+                yield* src;
+                return;
+            }
+
+            // The buffer is a ring, in which the oldest element is at the next position to overwrite.
+            const buffer: T[] = [];
+            let position = 0;
+            for (const item of src) {
+                if (buffer.length < count) {
+                    buffer.push(item);
+                    continue;
+                }
+
+                const oldest = buffer[position];
+                buffer[position] = item;
+                position = (position + 1) % count;
+                yield oldest;
+            }
+        });
+    }
+
+    /**
+     * @description Returns an iterable that bypasses elements as long as a predicate is satisfied and yields the
+     * rest, including the first element that did not satisfy it.
+     * @param {(item: T, index: number) => boolean} predicate The test applied to each element.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    skipWhile(predicate: (item: T, index: number) => boolean): Species<this, T> {
+        return this.deriveSpecies(operators.skipWhile(predicate)(this));
+    }
+
+    /**
+     * @description Determines whether the supplied callback function returns true for any element in the source.
+     * @param {(item: T, index: number) => boolean} filter The callback function to invoke.
+     * @returns {boolean}
+     * @memberof Iterable
+     */
+    some(filter: (item: T, index: number) => boolean): boolean {
+        return operators.some(filter)(this);
+    }
+
+    /**
+     * @description Splits the source into arrays of consecutive elements, starting a new array at each element
+     * that satisfies a predicate.
+     * @param {(item: T, index: number) => boolean} predicate Determines whether an element starts a new array.
+     * @returns {Iterable<T[]>}
+     * @memberof Iterable
+     */
+    splitWhen(predicate: (item: T, index: number) => boolean): Iterable<T[]> {
+        validateArgument(predicate, 'predicate');
+        const src = this;
+        return this.derive<T[]>(function* () {
+            let current: T[] = [];
+            let index = 0;
+            for (const item of src) {
+                if (predicate(item, index++) && current.length > 0) {
+                    yield current;
+                    current = [];
+                }
+
+                current.push(item);
+            }
+
+            if (current.length > 0) {
+                yield current;
+            }
+        });
+    }
+
+    /**
+     * @description Computes descriptive statistics over the numbers in the source, or the numbers returned by a
+     * selector. A SequenceEmptyError is thrown when the source is empty.
+     * @param {(item: T, index: number) => number} [selector] Selector for the number of each element, which may be
+     * omitted when the elements are numbers.
+     * @param {number[]} [percentiles=[25, 50, 75]] The percentiles (between 0 and 100) to compute.
+     * @returns {Statistics}
+     * @memberof Iterable
+     */
+    stats(this: Iterable<number>, selector?: null, percentiles?: number[]): Statistics;
+    stats(selector: (item: T, index: number) => number, percentiles?: number[]): Statistics;
+    stats(
+        this: Iterable<any>,
+        selector?: (item: any, index: number) => number,
+        percentiles: number[] = [25, 50, 75]
+    ): Statistics {
+        const values = selector ? operators.map(selector)(this) : this;
+        const result = computeStatistics(values, percentiles);
+        if (!result) {
+            throw new SequenceEmptyError();
+        }
+
+        return result;
+    }
+
+    /**
+     * @description Computes the sum of the numbers in the source, or of the numbers returned by a selector.
+     * @param {(item: T, index: number) => number} [selector] Selector for the number of each element, which may be
+     * omitted when the elements are numbers.
+     * @returns {number} The sum, or 0 when the source is empty.
+     * @memberof Iterable
+     */
+    sum(this: Iterable<number>): number;
+    sum(selector: (item: T, index: number) => number): number;
+    sum(this: Iterable<any>, selector?: (item: any, index: number) => number): number {
+        let sum = 0;
+        for (const value of selector ? operators.map(selector)(this) : this) {
+            sum += value;
+        }
+
+        return sum;
+    }
+
+    /**
+     * @description Returns the distinct elements whose keys appear in either the source or another iterable, but not
+     * in both. Elements from the source are yielded first, followed by those of the other iterable.
+     * @template K The type of the comparison key.
+     * @param {LibIterable<T>} other The other iterable.
+     * @param {(item: T) => K} [keySelector] Optional selector for the key used to compare elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    symmetricDifference<K = T>(
+        other: LibIterable<T>,
+        keySelector: (item: T) => K = identity,
+        comparer?: EqualityComparer<K>
+    ): Species<this, T> {
+        validateArgument(other, 'other');
+        validateArgument(keySelector, 'keySelector');
+        const src = this;
+        return this.deriveSpecies(function* () {
+            const otherItems = [...other];
+            const otherKeys = createSet<K>(comparer, otherItems.map(x => keySelector(x)));
+            const sourceKeys = createSet<K>(comparer);
+            const yielded = createSet<K>(comparer);
+            for (const item of src) {
+                const key = keySelector(item);
+                sourceKeys.add(key);
+                if (!otherKeys.has(key) && !yielded.has(key)) {
+                    yielded.add(key);
+                    yield item;
+                }
+            }
+
+            for (const item of otherItems) {
+                const key = keySelector(item);
+                if (!sourceKeys.has(key) && !yielded.has(key)) {
+                    yielded.add(key);
+                    yield item;
+                }
+            }
+        });
+    }
+
+    /**
+     * @description Determines whether all elements in the source satisfy the specified test.
+     * @param {(item: T, index: number) => boolean} test The test function.
+     * @returns {boolean}
+     * @memberof Iterable
+     */
+    every(test: (item: T, index: number) => boolean): boolean {
+        return operators.every(test)(this);
+    }
+
+    /**
+     * @description Returns a new Iterable consisting of the elements in the
+     * current object followed by that of the input argument.
+     * @param other {LibIterable<T>} An iterable
+     * @returns {Species<this, T>} a new Iterable that contains elements from both sources
+     */
+    concat(other: LibIterable<T>): Species<this, T> {
+        return this.deriveSpecies(operators.concat(other)(this));
+    }
+
+    /**
+     * @description Returns an iterable of the specified number of elements from the start of the source. The source
+     * is not pulled from again once that many elements were yielded, which makes it safe on infinite sources.
+     * @param {number} count The number of elements to take.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    take(count: number): Species<this, T> {
+        return this.deriveSpecies(operators.take<T>(count)(this));
+    }
+
+    /**
+     * @description Returns an iterable of the specified number of elements from the end of the source. Only that
+     * many elements are buffered at a time.
+     * @param {number} count The number of elements to take from the end.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    takeLast(count: number): Species<this, T> {
+        validateCount(count, 'count');
+        const src = this;
+        return this.deriveSpecies(function* () {
+            if (count === 0) {
+                return;
+            }
+
+            // The buffer is a ring, in which the oldest element is at the next position to overwrite.
+            const buffer: T[] = [];
+            let position = 0;
+            for (const item of src) {
+                if (buffer.length < count) {
+                    buffer.push(item);
+                } else {
+                    buffer[position] = item;
+                    position = (position + 1) % count;
+                }
+            }
+
+            yield* buffer.slice(position);
+            yield* buffer.slice(0, position);
+        });
+    }
+
+    /**
+     * @description Returns an iterable of elements from the start of the source as long as a predicate is
+     * satisfied. The source is not pulled from again after the first element that does not satisfy it.
+     * @param {(item: T, index: number) => boolean} predicate The test applied to each element.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    takeWhile(predicate: (item: T, index: number) => boolean): Species<this, T> {
+        return this.deriveSpecies(operators.takeWhile(predicate)(this));
+    }
+
+    /**
+     * @description Returns an iterable that invokes an action for each element as it is enumerated and yields the
+     * element unchanged. Useful for logging and debugging pipelines.
+     * @param {(item: T, index: number) => void} action The action to invoke.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    tap(action: (item: T, index: number) => void): Species<this, T> {
+        return this.deriveSpecies(operators.tap(action)(this));
+    }
+
+    /**
+     * @description Splits the source into independent iterables that each yield every element of the source. The
+     * source is enumerated once, and only the elements between the slowest and the fastest consumer are buffered.
+     * Like the source of a generator object, each returned iterable can be enumerated only once. The source is closed
+     * once every returned iterable stopped early.
+     * @param {number} [count=2] The number of iterables to return.
+     * @returns {Species<this, T>[]}
+     * @memberof Iterable
+     */
+    tee(count: number = 2): Species<this, T>[] {
+        validateCount(count, 'count');
+        const src = this;
+        const buffer: T[] = [];
+        const positions: number[] = [];
+        let start = 0;
+        let iterator: Iterator<T>;
+        let done = false;
+
+        function* branch(id: number): IterableIterator<T> {
+            try {
+                while (true) {
+                    const offset = positions[id] - start;
+                    if (offset >= buffer.length) {
+                        if (done) {
+                            return;
+                        }
+
+                        iterator = iterator || src[Symbol.iterator]();
+                        const result = iterator.next();
+                        if (result.done) {
+                            done = true;
+                            return;
+                        }
+
+                        buffer.push(result.value);
+                    }
+
+                    const item = buffer[offset];
+                    positions[id]++;
+                    release();
+                    yield item;
+                }
+            } finally {
+                // A branch that stopped no longer holds back elements from being released.
+                positions[id] = Infinity;
+                release();
+                // The source is closed once every branch stopped before it was exhausted.
+                if (iterator && !done && positions.every(x => x === Infinity)) {
+                    done = true;
+                    if (typeof iterator.return === 'function') {
+                        iterator.return();
+                    }
+                }
+            }
+        }
+
+        function release(): void {
+            const slowest = Math.min(...positions);
+            const released = Math.min(slowest, start + buffer.length) - start;
+            if (released > 0) {
+                buffer.splice(0, released);
+                start += released;
+            }
+        }
+
+        const branches: Species<this, T>[] = [];
+        for (let id = 0; id < count; id++) {
+            positions.push(0);
+            branches.push(this.deriveSpecies(branch(id)));
+        }
+
+        return branches;
+    }
+
+    /**
+     * @description Gets an array of the elements of the source. Array sources are copied, and Set and Map sources
+     * are spread directly, instead of being enumerated through the iterable.
+     * @returns {T[]}
+     * @memberof Iterable
+     */
+    toArray(): T[] {
+        const root = this.rootSource();
+        if (Array.isArray(root)) {
+            // Unlike slice, Array.from fills the holes of sparse arrays with undefined, like enumerating them does.
+            return Array.from(root);
+        }
+
+        // Spreading Sets and Maps directly uses the engine's fast path for them.
+        return root instanceof Set || root instanceof Map ? [...root] : [...this];
+    }
+
+    /**
+     * @description Returns an AsyncIterable over the elements of the source, allowing async operations to be
+     * chained after sync ones.
+     * @returns {AsyncIterable<T>}
+     * @memberof Iterable
+     */
+    toAsync(): AsyncIterable<T> {
+        return new AsyncIterable<T>(this);
+    }
+
+    /**
+     * @description Eagerly groups the elements of the source by a key into a lookup that supports repeated key
+     * lookups. Groups are kept in the order their keys were first seen.
+     * @template K The type of the grouping key.
+     * @template E The type of the grouped elements.
+     * @param {(item: T, index: number) => K} keySelector Selects the key for each element.
+     * @param {(item: T, index: number) => E} [elementSelector] Optional projection applied to each grouped element.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Lookup<K, E>}
+     * @memberof Iterable
+     */
+    toLookup<K, E = T>(
+        keySelector: (item: T, index: number) => K,
+        elementSelector?: (item: T, index: number) => E,
+        comparer?: EqualityComparer<K>
+    ): Lookup<K, E> {
+        validateArgument(keySelector, 'keySelector');
+        const groups = createMap<K, E[]>(comparer);
+        let index = 0;
+        for (const item of this) {
+            const key = keySelector(item, index);
+            const element = elementSelector ? elementSelector(item, index) : (item as any as E);
+            const group = groups.get(key);
+            if (group) {
+                group.push(element);
+            } else {
+                groups.set(key, [element]);
+            }
+
+            index++;
+        }
+
+        return new Lookup<K, E>(groups, comparer);
+    }
+
+    /**
+     * @description Creates a Map of the elements of the source, or of values selected from them, keyed by a key
+     * selected from each element.
+     * @template K The type of the keys.
+     * @template V The type of the values.
+     * @param {(item: T, index: number) => K} keySelector Selects the key of each element.
+     * @param {(item: T, index: number) => V} [valueSelector] Optional selector for the value of each element.
+     * @param {DuplicateKeyPolicy<K, V>} [onDuplicate='throw'] Determines how elements with duplicate keys are handled.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Map<K, V>}
+     * @memberof Iterable
+     */
+    toMap<K, V = T>(
+        keySelector: (item: T, index: number) => K,
+        valueSelector?: (item: T, index: number) => V,
+        onDuplicate: DuplicateKeyPolicy<K, V> = 'throw',
+        comparer?: EqualityComparer<K>
+    ): Map<K, V> {
+        validateArgument(keySelector, 'keySelector');
+        validateDuplicatePolicy(onDuplicate);
+        const map = createMap<K, V>(comparer);
+        let index = 0;
+        for (const item of this) {
+            const key = keySelector(item, index);
+            const value = valueSelector ? valueSelector(item, index) : (item as any as V);
+            map.set(key, map.has(key) ? resolveDuplicate(onDuplicate, key, map.get(key), value) : value);
+            index++;
+        }
+
+        return map;
+    }
+
+    /**
+     * @description Creates nested objects and arrays from a source of [path, value] leaves, such as the ones returned
+     * by Iterable.paths. Missing containers along a path are created as arrays when the next key is a number and as
+     * objects otherwise. A DuplicateKeyError is thrown when a path passes through a value that is not an object.
+     * @param {DuplicateKeyPolicy<ObjectPath, any>} [onDuplicate='throw'] Determines how duplicate paths are handled.
+     * @returns {*} The root value, which is the value of the empty path when there is one, or undefined when the
+     * source is empty.
+     * @memberof Iterable
+     */
+    toNestedObject(this: Iterable<[ObjectPath, any]>, onDuplicate: DuplicateKeyPolicy<ObjectPath, any> = 'throw'): any {
+        validateDuplicatePolicy(onDuplicate);
+        const define = (container: any, key: string | number, value: any) =>
+            Object.defineProperty(container, key, { configurable: true, enumerable: true, writable: true, value });
+
+        // The root is kept in a holder, so the empty path is assigned like any other path.
+        const holder: { root?: any } = {};
+        for (const [path, value] of this) {
+            validateArgument(path, 'path');
+            let container: any = holder;
+            let key: string | number = 'root';
+            for (let i = 0; i < path.length; i++) {
+                if (!Object.prototype.hasOwnProperty.call(container, key)) {
+                    define(container, key, typeof path[i] === 'number' ? [] : {});
+                } else if (typeof container[key] !== 'object' || container[key] === null) {
+                    throw new DuplicateKeyError(path.slice(0, i));
+                }
+
+                container = container[key];
+                key = path[i];
+            }
+
+            const exists = Object.prototype.hasOwnProperty.call(container, key);
+            define(container, key, exists ? resolveDuplicate(onDuplicate, path, container[key], value) : value);
+        }
+
+        return holder.root;
+    }
+
+    /**
+     * @description Creates a plain object from a source of [key, value] entries, like Object.fromEntries does.
+     * @template V The type of the values.
+     * @param {DuplicateKeyPolicy<string, V>} [onDuplicate='throw'] Determines how duplicate keys are handled.
+     * @returns {Record<string, V>}
      * @memberof Iterable
      */
-    constructor(private readonly source: LibIterable<T> | (() => LibIterable<T>)) {
+    toObject<V>(this: Iterable<[string, V]>, onDuplicate: DuplicateKeyPolicy<string, V> = 'throw'): Record<string, V> {
+        return this.toRecord(x => x[0], x => x[1], onDuplicate);
     }
 
-    [Symbol.iterator](): Iterator<T> {
-        const src = this.source;
-        return (typeof src === 'function' ? src() : src)[Symbol.iterator]();
+    /**
+     * @description Creates a plain object of the elements of the source, or of values selected from them, keyed by
+     * a string selected from each element.
+     * @template V The type of the values.
+     * @param {(item: T, index: number) => string} keySelector Selects the key of each element.
+     * @param {(item: T, index: number) => V} [valueSelector] Optional selector for the value of each element.
+     * @param {DuplicateKeyPolicy<string, V>} [onDuplicate='throw'] Determines how elements with duplicate keys are
+     * handled.
+     * @returns {Record<string, V>}
+     * @memberof Iterable
+     */
+    toRecord<V = T>(
+        keySelector: (item: T, index: number) => string,
+        valueSelector?: (item: T, index: number) => V,
+        onDuplicate: DuplicateKeyPolicy<string, V> = 'throw'
+    ): Record<string, V> {
+        validateArgument(keySelector, 'keySelector');
+        validateDuplicatePolicy(onDuplicate);
+        const record: Record<string, V> = {};
+        let index = 0;
+        for (const item of this) {
+            const key = keySelector(item, index);
+            let value = valueSelector ? valueSelector(item, index) : (item as any as V);
+            if (Object.prototype.hasOwnProperty.call(record, key)) {
+                value = resolveDuplicate(onDuplicate, key, record[key], value);
+            }
+
+            // Defined rather than assigned, so keys such as __proto__ become own properties.
+            Object.defineProperty(record, key, { configurable: true, enumerable: true, writable: true, value });
+            index++;
+        }
+
+        return record;
     }
 
     /**
-     * @description Gets the count of elements in the source iterable. The entire iterable is traversed to get the count.
-     * @returns {number} The count of elements in the source iterable.
+     * @description Creates a Set of the elements of the source.
+     * @param {EqualityComparer<T>} [comparer] Optional comparer for elements. Defaults to SameValueZero equality.
+     * @returns {Set<T>}
      * @memberof Iterable
      */
-    count(): number {
-        let num = 0;
-        for (const _ of this) { ++num; }
-        return num;
+    toSet(comparer?: EqualityComparer<T>): Set<T> {
+        return createSet<T>(comparer, this);
     }
 
     /**
-     * @description Returns an iterable containing only distinct entities found in the source iterable.
-     * @returns {Iterable<T>} Iterable containing distinct entities.
+     * @description Returns the distinct elements of the source followed by the distinct elements of another iterable
+     * that were not found in the source. Both sources are enumerated lazily.
+     * @template K The type of the comparison key.
+     * @param {LibIterable<T>} other The other iterable.
+     * @param {(item: T) => K} [keySelector] Optional selector for the key used to compare elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Species<this, T>}
      * @memberof Iterable
      */
-    distinct(keySelector: (item: T, index: number) => any): Iterable<T> {
-        if (!keySelector) {
-            throw new ReferenceError(`Invalid keySelector. keySelector is ${keySelector}`);
-        }
+    union<K = T>(
+        other: LibIterable<T>,
+        keySelector: (item: T) => K = identity,
+        comparer?: EqualityComparer<K>
+    ): Species<this, T> {
+        return this.unionBy(other, keySelector, comparer);
+    }
 
+    /**
+     * @description Returns the distinct elements of the source followed by the distinct elements of another iterable
+     * whose keys were not found in the source. Both sources are enumerated lazily.
+     * @template K The type of the comparison key.
+     * @param {LibIterable<T>} other The other iterable.
+     * @param {(item: T) => K} keySelector Selects the key used to compare elements.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @returns {Species<this, T>}
+     * @memberof Iterable
+     */
+    unionBy<K>(other: LibIterable<T>, keySelector: (item: T) => K, comparer?: EqualityComparer<K>): Species<this, T> {
+        validateArgument(other, 'other');
+        validateArgument(keySelector, 'keySelector');
         const src = this;
-        return new Iterable<T>(function* () {
-            const set = new Set<T>();
-            let index = 0;
-            for (const item of src) {
-                const key = keySelector(item, index++);
-                if (!set.has(key)) {
-                    set.add(key);
-                    yield item;
+        return this.deriveSpecies(function* () {
+            const seen = createSet<K>(comparer);
+            for (const source of [src, other]) {
+                for (const item of source) {
+                    const key = keySelector(item);
+                    if (!seen.has(key)) {
+                        seen.add(key);
+                        yield item;
+                    }
                 }
             }
         });
     }
 
     /**
-     * @description Returns an iterable that returns only filtered elements from the source.
-     * @param {(item: T, index: number) => boolean} filter The filter to apply on the source.
-     * @returns {Iterable<T>} Iterable containing filtered entities.
+     * @description Returns sliding windows over the source. Each window holds up to size elements and starts step
+     * elements after the previous one. Trailing windows with fewer than size elements are dropped unless configured
+     * otherwise through the options.
+     * @param {number} size The number of elements in each window.
+     * @param {number} [step=1] The number of elements between the starts of consecutive windows.
+     * @param {WindowOptions<T>} [options] Determines how trailing partial windows are handled. Defaults to 'drop'.
+     * @returns {Iterable<T[]>}
      * @memberof Iterable
      */
-    filter(filter: (item: T, index: number) => boolean): Iterable<T> {
-        if (!filter) {
-            throw new ReferenceError(`Invalid filter. filter is '${filter}'`);
-        }
+    window(size: number, step: number = 1, options: WindowOptions<T> = {}): Iterable<T[]> {
+        validateSize(size, 'size');
+        validateSize(step, 'step');
+        const src = this;
+        const { partial = 'drop', padding } = options;
+        return this.derive<T[]>(() => windowItems(src, size, step, partial, padding));
+    }
 
+    /**
+     * @description Combines the elements of the source and other iterables by position into tuples. The result
+     * ends with the shortest source, and every other source is closed at that point.
+     * @param {...LibIterable<any>[]} others The iterables to combine with the source.
+     * @returns {Iterable<any[]>}
+     * @memberof Iterable
+     */
+    zip<A>(a: LibIterable<A>): Iterable<[T, A]>;
+    zip<A, B>(a: LibIterable<A>, b: LibIterable<B>): Iterable<[T, A, B]>;
+    zip<A, B, C>(a: LibIterable<A>, b: LibIterable<B>, c: LibIterable<C>): Iterable<[T, A, B, C]>;
+    zip(...others: LibIterable<any>[]): Iterable<any[]>;
+    zip(...others: LibIterable<any>[]): Iterable<any[]> {
+        others.forEach((other, index) => validateArgument(other, `others[${index}]`));
         const src = this;
-        return new Iterable<T>(function* () {
-            let index = 0;
-            for (const item of src) {
-                if (filter(item, index++)) {
-                    yield item;
-                }
-            }
-        });
+        return this.derive<any[]>(() => zipItems([src, ...others], false, []));
     }
 
     /**
-     * @description Gets the first element from the source iterable.
-     * @param {(item: T, index: number) => boolean} [filter] Optional filter applied to find the first matching element.
-     * @returns {T} The first element from the source iterable.
+     * @description Combines the elements of the source and other iterables by position into tuples. The result
+     * ends with the longest source, and elements of exhausted sources are replaced by fill values, or undefined.
+     * @param {...LibIterable<any>[]} others The iterables to combine with the source, optionally followed by
+     * a ZipLongestOptions object with the fill values.
+     * @returns {Iterable<any[]>}
      * @memberof Iterable
      */
-    first(filter?: (item: T, index: number) => boolean): T {
-        if (filter) {
-            let index = 0;
-            for (const item of this) {
-                if (filter(item, index++)) {
-                    return item;
-                }
-            }
+    zipLongest<A>(a: LibIterable<A>, options?: ZipLongestOptions<[T, A]>): Iterable<[T, A]>;
+    zipLongest<A, B>(
+        a: LibIterable<A>,
+        b: LibIterable<B>,
+        options?: ZipLongestOptions<[T, A, B]>
+    ): Iterable<[T, A, B]>;
+    zipLongest<A, B, C>(
+        a: LibIterable<A>,
+        b: LibIterable<B>,
+        c: LibIterable<C>,
+        options?: ZipLongestOptions<[T, A, B, C]>
+    ): Iterable<[T, A, B, C]>;
+    zipLongest(...others: (LibIterable<any> | ZipLongestOptions<any[]>)[]): Iterable<any[]>;
+    zipLongest(...args: (LibIterable<any> | ZipLongestOptions<any[]>)[]): Iterable<any[]> {
+        const last = args[args.length - 1];
+        const options: ZipLongestOptions<any[]> = last && !isIterable(last) ? (args.pop() as any) : {};
+        const others = args as LibIterable<any>[];
+        others.forEach((other, index) => validateArgument(other, `others[${index}]`));
+        const src = this;
+        return this.derive<any[]>(() => zipItems([src, ...others], true, options.fillValues || []));
+    }
+
+    /**
+     * @description The constructor used by operators to create derived iterables. Defaults to the constructor of the
+     * instance, so the operators of a subclass return instances of that subclass. Subclasses whose constructor does
+     * not accept a single source override it, typically to return Iterable. Operators keeping the element type are
+     * typed to return the subclass, see Species. Operators changing it, such as map, are typed to return Iterable,
+     * so their results need a cast to the subclass.
+     * @readonly
+     * @static
+     * @type {IterableSpecies}
+     * @memberof Iterable
+     */
+    static get [Symbol.species](): IterableSpecies {
+        return this;
+    }
 
-            return null;
-        } else {
-            const { done, value } = this[Symbol.iterator]().next();
-            return done ? null : value;
+    /**
+     * @description Disables tracing enabled by Iterable.enableTracing. Iterables created while it was enabled keep
+     * recording their traces.
+     * @static
+     * @memberof Iterable
+     */
+    static disableTracing(): void {
+        for (const [name, descriptor] of untracedOperators) {
+            Object.defineProperty(Iterable.prototype, name, descriptor);
         }
+
+        untracedOperators.clear();
+        traceHook = null;
     }
 
     /**
-     * @description Gets an array of items from the source iterable.
-     * @returns {T[]} Array of items from the source.
+     * @description Gets an empty iterable.
+     * @static
+     * @template T The element type of the iterable.
+     * @returns {Iterable<T>}
      * @memberof Iterable
      */
-    items(): T[] {
-        return [...this];
+    static empty<T>(): Iterable<T> {
+        return new Iterable<T>([]);
     }
 
     /**
-     * @description Calls a callback for each item in the source and returns the returned value from the callback.
-     * @template V
-     * @param {(item: T, index: number) => V} selector The callback function to invoke for each element in the source.
-     * @returns {Iterable<V>}
+     * @description Returns an iterable of the [key, value] entries of an object. By default the enumerable string
+     * keyed properties of the object and its prototype chain are returned, like for...in does.
+     * @static
+     * @param {*} obj The object, which may be null or undefined.
+     * @param {ObjectKeyOptions} [options] Optional options selecting the enumerated properties.
+     * @returns {Iterable<[string, any]>}
      * @memberof Iterable
      */
-    map<V>(selector: (item: T, index: number) => V): Iterable<V> {
-        const src = this;
-        return new Iterable<V>(function* () {
-            let index = 0;
-            for (const item of src) {
-                yield selector(item, index++);
+    static entries(obj: any, options?: ObjectKeyOptions & { symbols?: false }): Iterable<[string, any]>;
+    static entries(obj: any, options: ObjectKeyOptions): Iterable<[string | symbol, any]>;
+    static entries(obj: any, options: ObjectKeyOptions = {}): Iterable<[string | symbol, any]> {
+        validateArgument(options, 'options');
+        return new Iterable(function* () {
+            for (const key of objectKeys(obj, options)) {
+                yield [key, obj[key]] as [string | symbol, any];
             }
         });
     }
 
     /**
-     * @description Calls a callback for each item in the source and returns individual result values from the callback.
-     * @template V
-     * @param {(item: T, index: number) => Iterable<V>} selector The callback function to invoke for each element in the source.
-     * @returns {Iterable<V>}
+     * @description Enables tracing of lazy operators such as filter, map and mapMany. Each operator applied while
+     * tracing is enabled records its name, its arguments, the number of elements it pulled and yielded and the time
+     * spent in its callbacks. The traces of a pipeline are returned by its explain method.
+     * @static
+     * @param {TraceHook} [hook] Optional function notified with the trace of an operator each time an enumeration
+     * of its result ends.
      * @memberof Iterable
      */
-    mapMany<V>(selector: (item: T, index: number) => LibIterable<V>): Iterable<V> {
-        const src = this;
-        return new Iterable<V>(function* () {
-            let index = 0;
-            for (const item of src) {
-                yield* selector(item, index++);
+    static enableTracing(hook?: TraceHook): void {
+        traceHook = hook || null;
+        if (untracedOperators.size > 0) {
+            return;
+        }
+
+        for (const name of tracedOperators) {
+            const descriptor = Object.getOwnPropertyDescriptor(Iterable.prototype, name);
+            const operator: (...args: any[]) => Iterable<any> = descriptor.value;
+            untracedOperators.set(name, descriptor);
+            Object.defineProperty(Iterable.prototype, name, {
+                ...descriptor,
+                value(this: Iterable<any>, ...args: any[]): Iterable<any> {
+                    const stage = createStage(name, args);
+                    const input = this.derive(countItems(this, stage, 'itemsIn'));
+                    const timed = args.map(arg => (typeof arg === 'function' ? timeCallback(arg, stage) : arg));
+                    const output = operator.apply(input, timed);
+                    const traced = output.derive(
+                        countItems(output, stage, 'itemsOut', () => {
+                            if (traceHook) {
+                                traceHook(stage);
+                            }
+                        })
+                    );
+
+                    pipelineTraces.set(traced, [...(pipelineTraces.get(this) || []), stage]);
+                    return traced;
+                }
+            });
+        }
+    }
+
+    /**
+     * @description Returns an infinite iterable of the values returned by a generator function, which is invoked
+     * lazily with the index of each element.
+     * @static
+     * @template T The element type of the iterable.
+     * @param {(index: number) => T} fn The function that generates each element.
+     * @returns {Iterable<T>}
+     * @memberof Iterable
+     */
+    static generate<T>(fn: (index: number) => T): Iterable<T> {
+        validateArgument(fn, 'fn');
+        return new Iterable<T>(function* () {
+            for (let index = 0; ; index++) {
+                yield fn(index);
             }
         });
     }
 
     /**
-     * @description Determines whether the supplied callback function returns true for any element in the source.
-     * @param {(item: T, index: number) => boolean} filter The callback function to invoke.
-     * @returns {boolean}
+     * Returns an Iterable of the specified object's keys.
+     * @param obj {any} An object
+     * @param options {ObjectKeyOptions} Optional options selecting the enumerated properties. By default the
+     * enumerable string keys of the object and its prototype chain are returned, like for...in does.
+     * @returns {Iterable<string>} The keys of the specified object.
+     */
+    static keys(obj: any, options?: ObjectKeyOptions & { symbols?: false }): Iterable<string>;
+    static keys(obj: any, options: ObjectKeyOptions): Iterable<string | symbol>;
+    static keys(obj: any, options: ObjectKeyOptions = {}): Iterable<string | symbol> {
+        validateArgument(options, 'options');
+        return new Iterable(() => objectKeys(obj, options));
+    }
+
+    /**
+     * @description Returns an iterable of the leaves of nested plain objects and arrays as [path, value] pairs, in
+     * depth first order. Object properties are named by strings and array elements by numbers in paths. Values
+     * other than plain objects and arrays, such as dates, maps and class instances, as well as empty objects and
+     * arrays, are leaves. A TypeError is thrown when a circular reference is found. The pairs can be turned back into
+     * nested objects using toNestedObject.
+     * @static
+     * @param {*} obj The root object or array. Other values are returned as a single leaf with an empty path.
+     * @returns {Iterable<[ObjectPath, any]>}
      * @memberof Iterable
      */
-    some(filter: (item: T, index: number) => boolean): boolean {
-        let index = 0;
-        for (const item of this) {
-            if (filter(item, index++)) {
-                return true;
-            }
+    static paths(obj: any): Iterable<[ObjectPath, any]> {
+        return new Iterable(() => objectPaths(obj));
+    }
+
+    /**
+     * @description Returns an iterable of numbers, or bigints, from start up to but excluding end, separated by step.
+     * A negative step counts down from start to end.
+     * @static
+     * @param {number | bigint} start The first value of the range.
+     * @param {number | bigint} end The exclusive upper bound of the range, or lower bound for a negative step.
+     * @param {number | bigint} [step=1] The difference between consecutive values. Must not be zero.
+     * @returns {Iterable<number | bigint>}
+     * @memberof Iterable
+     */
+    static range(start: number, end: number, step?: number): Iterable<number>;
+    static range(start: bigint, end: bigint, step?: bigint): Iterable<bigint>;
+    static range(start: any, end: any, step?: any): Iterable<any> {
+        validateArgument(start, 'start');
+        validateArgument(end, 'end');
+        const isBigInt = typeof start === 'bigint';
+        const increment = step === undefined ? (isBigInt ? BigInt(1) : 1) : step;
+        if (increment === (isBigInt ? BigInt(0) : 0)) {
+            throw new ArgumentOutOfRangeError('step', step, 'non-zero');
         }
 
-        return false;
+        return new Iterable<any>(function* () {
+            // Values are computed from the index rather than accumulated to avoid floating point drift.
+            for (let index = 0; ; index++) {
+                const offset: any = isBigInt ? BigInt(index) : index;
+                const value = start + offset * increment;
+                if (increment > 0 ? value >= end : value <= end) {
+                    return;
+                }
+
+                yield value;
+            }
+        });
     }
 
     /**
-     * @description Determines whether all elements in the source satisfy the specified test.
-     * @param {(item: T, index: number) => boolean} test The test function.
-     * @returns {boolean}
+     * @description Registers a custom operator as a method of all iterables. The operator receives the iterable the
+     * method is called on followed by the arguments of the call, so it can build on the built-in operators, which
+     * preserve the species of subclasses. To make the method known to TypeScript, declare it on the Iterable
+     * interface using module augmentation, e.g.
+     * declare module 'jsiterable' { interface Iterable<T> { everyOther(): Iterable<T>; } }
+     * @param {string} name The name of the method. Names already defined on Iterable are rejected.
+     * @param {(source: Iterable<any>, ...args: any[]) => any} operator The implementation of the method.
      * @memberof Iterable
      */
-    every(test: (item: T, index: number) => boolean): boolean {
-        let index = 0;
-        for (const item of this) {
-            if (!test(item, index++)) {
-                return false;
-            }
+    static registerOperator(name: string, operator: (source: Iterable<any>, ...args: any[]) => any): void {
+        validateArgument(name, 'name');
+        validateArgument(operator, 'operator');
+        if (name in Iterable.prototype) {
+            throw new ArgumentOutOfRangeError('name', name, 'a name that is not already defined on Iterable');
         }
 
-        return true;
+        Object.defineProperty(Iterable.prototype, name, {
+            configurable: true,
+            writable: true,
+            value(this: Iterable<any>, ...args: any[]): any {
+                return operator(this, ...args);
+            }
+        });
     }
 
     /**
-     * @description Returns a new Iterable consisting of the elements in the
-     * current object followed by that of the input argument.
-     * @param other {LibIterable<T>} An iterable
-     * @returns {Iterable<T>} a new Iterable that contains elements from both sources
+     * @description Returns an iterable that repeats a value.
+     * @static
+     * @template T The element type of the iterable.
+     * @param {T} value The value to repeat.
+     * @param {number} [count] The number of times to repeat the value. Repeats indefinitely when omitted.
+     * @returns {Iterable<T>}
+     * @memberof Iterable
      */
-    concat(other: LibIterable<T>): Iterable<T> {
-        const src = this;
-        return new Iterable(function* () {
-            yield* src;
-            yield* other;
+    static repeat<T>(value: T, count?: number): Iterable<T> {
+        if (count !== undefined) {
+            validateCount(count, 'count');
+        }
+
+        return new Iterable<T>(function* () {
+            for (let index = 0; count === undefined || index < count; index++) {
+                yield value;
+            }
         });
     }
 
     /**
-     * @description Gets an empty iterable.
+     * @description Returns an iterable of the nodes of a tree or graph in breadth-first order, starting at a root.
+     * Children are selected when their parent is yielded, and the traversal uses a queue instead of recursion.
+     * @template T The type of the nodes.
+     * @template K The type of the node keys used to detect cycles.
+     * @param {T} root The node to start at.
+     * @param {(node: T, depth: number) => LibIterable<T>} children Selects the children of a node. Receives the depth
+     * of the node, which is 0 for the root. Can return null or undefined for leaves.
+     * @param {TraversalOptions<T, K>} [options] Optional key selector for detecting cycles.
+     * @returns {Iterable<T>}
+     * @memberof Iterable
+     */
+    static traverseBreadthFirst<T, K = T>(
+        root: T,
+        children: (node: T, depth: number) => LibIterable<T> | null | undefined,
+        options: TraversalOptions<T, K> = {}
+    ): Iterable<T> {
+        validateTraversalArguments(children, options);
+        return new Iterable<T>(() => traverseBreadthFirst(root, children, options));
+    }
+
+    /**
+     * @description Returns an iterable of the nodes of a tree or graph in depth-first order, starting at a root.
+     * Children are selected when the traversal descends into their parent, and the traversal uses a stack instead
+     * of recursion, so very deep trees do not overflow the call stack.
+     * @template T The type of the nodes.
+     * @template K The type of the node keys used to detect cycles.
+     * @param {T} root The node to start at.
+     * @param {(node: T, depth: number) => LibIterable<T>} children Selects the children of a node. Receives the depth
+     * of the node, which is 0 for the root. Can return null or undefined for leaves.
+     * @param {DepthFirstOptions<T, K>} [options] Optional order of the traversal and key selector for detecting
+     * cycles.
+     * @returns {Iterable<T>}
+     * @memberof Iterable
+     */
+    static traverseDepthFirst<T, K = T>(
+        root: T,
+        children: (node: T, depth: number) => LibIterable<T> | null | undefined,
+        options: DepthFirstOptions<T, K> = {}
+    ): Iterable<T> {
+        validateTraversalArguments(children, options);
+        return new Iterable<T>(() => traverseDepthFirst(root, children, options));
+    }
+
+    /**
+     * @description Returns an iterable built by repeatedly applying a function to a state, starting with a seed.
+     * The function returns the next element together with the next state, or null or undefined to end the
+     * iterable.
      * @static
+     * @template S The type of the state.
      * @template T The element type of the iterable.
+     * @param {S} seed The initial state.
+     * @param {(state: S, index: number) => [T, S]} next Computes the next element and state from the current state.
      * @returns {Iterable<T>}
      * @memberof Iterable
      */
-    static empty<T>(): Iterable<T> {
-        return new Iterable<T>([]);
+    static unfold<S, T>(seed: S, next: (state: S, index: number) => [T, S] | null | undefined): Iterable<T> {
+        validateArgument(next, 'next');
+        return new Iterable<T>(function* () {
+            let state = seed;
+            for (let index = 0; ; index++) {
+                const result = next(state, index);
+                if (result == null) {
+                    return;
+                }
+
+                yield result[0];
+                state = result[1];
+            }
+        });
     }
 
     /**
-     * Returns an Iterable of the specified object's keys.
-     * @param obj {any} An object
-     * @returns {Iterable<string>} The keys of the specified object.
+     * @description Returns an iterable over a resource that is acquired when an enumeration starts and disposed when
+     * it ends, whether it completed, was stopped early or failed. Resources are disposed using their Symbol.dispose
+     * method when the runtime supports it, or their dispose method.
+     * @static
+     * @template R The type of the resource.
+     * @template T The element type of the iterable.
+     * @param {() => R} resourceFactory Acquires the resource for an enumeration.
+     * @param {(resource: R) => LibIterable<T>} iterableFactory Gets the elements from the resource.
+     * @returns {Iterable<T>}
+     * @memberof Iterable
      */
-    static keys(obj: any): Iterable<string> {
-        return new Iterable(function* () {
-            for (const key in obj) {
-                yield key;
+    static using<R, T>(resourceFactory: () => R, iterableFactory: (resource: R) => LibIterable<T>): Iterable<T> {
+        validateArgument(resourceFactory, 'resourceFactory');
+        validateArgument(iterableFactory, 'iterableFactory');
+        return new Iterable<T>(function* () {
+            const resource = resourceFactory();
+            try {
+                yield* iterableFactory(resource);
+            } finally {
+                dispose(resource);
             }
         });
     }
@@ -219,15 +2750,181 @@ export class Iterable<T> implements LibIterable<T> {
     /**
      * Returns an Iterable of the specified object's values.
      * @param obj {any} An object
+     * @param options {ObjectKeyOptions} Optional options selecting the enumerated properties. By default the values
+     * of the enumerable string keyed properties of the object and its prototype chain are returned.
      * @returns {Iterable<any>} The values of the specified object.
      */
-    static values(obj: any): Iterable<any> {
+    static values(obj: any, options: ObjectKeyOptions = {}): Iterable<any> {
+        validateArgument(options, 'options');
         return new Iterable(function* () {
-            for (const key in obj) {
+            for (const key of objectKeys(obj, options)) {
                 yield obj[key];
             }
         });
     }
 }
 
+/**
+ * @description A group of elements sharing a common key. A grouping is itself an Iterable over its elements.
+ * @export
+ * @class Grouping
+ * @extends {Iterable<T>}
+ * @template K The type of the key.
+ * @template T The type of the elements.
+ */
+export class Grouping<K, T> extends Iterable<T> {
+    /**
+     * @description Operators on a grouping return plain iterables.
+     * @readonly
+     * @static
+     * @type {IterableSpecies}
+     * @memberof Grouping
+     */
+    static get [Symbol.species](): IterableSpecies {
+        return Iterable;
+    }
+
+    /**
+     * Creates an instance of Grouping.
+     * @param {K} key The key shared by the elements of the grouping.
+     * @param {LibIterable<T>} elements The elements of the grouping.
+     * @memberof Grouping
+     */
+    constructor(readonly key: K, elements: LibIterable<T>) {
+        super(elements);
+    }
+}
+
+/**
+ * @description A materialized collection of groupings keyed by their grouping key. Iterating a lookup yields its
+ * groupings in the order their keys were first seen.
+ * @export
+ * @class Lookup
+ * @extends {Iterable<Grouping<K, T>>}
+ * @template K The type of the keys.
+ * @template T The type of the elements.
+ */
+export class Lookup<K, T> extends Iterable<Grouping<K, T>> {
+    private readonly groupings: Map<K, Grouping<K, T>>;
+
+    /**
+     * @description Operators on a lookup return plain iterables.
+     * @readonly
+     * @static
+     * @type {IterableSpecies}
+     * @memberof Lookup
+     */
+    static get [Symbol.species](): IterableSpecies {
+        return Iterable;
+    }
+
+    /**
+     * Creates an instance of Lookup.
+     * @param {Map<K, T[]>} groups The elements of each group keyed by the group key.
+     * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+     * @memberof Lookup
+     */
+    constructor(groups: Map<K, T[]>, comparer?: EqualityComparer<K>) {
+        const groupings = createMap<K, Grouping<K, T>>(comparer);
+        for (const [key, elements] of groups) {
+            groupings.set(key, new Grouping(key, elements));
+        }
+
+        super(() => groupings.values());
+        this.groupings = groupings;
+    }
+
+    /**
+     * @description Gets the number of groupings in the lookup.
+     * @readonly
+     * @type {number}
+     * @memberof Lookup
+     */
+    get size(): number {
+        return this.groupings.size;
+    }
+
+    /**
+     * @description Gets the elements for the specified key. An empty iterable is returned when the key is not found.
+     * @param {K} key The key to look up.
+     * @returns {Iterable<T>}
+     * @memberof Lookup
+     */
+    get(key: K): Iterable<T> {
+        return this.groupings.get(key) || Iterable.empty<T>();
+    }
+
+    /**
+     * @description Determines whether the lookup contains the specified key.
+     * @param {K} key The key to look up.
+     * @returns {boolean}
+     * @memberof Lookup
+     */
+    has(key: K): boolean {
+        return this.groupings.has(key);
+    }
+}
+
+/**
+ * @description An iterable whose elements are sorted by one or more keys. Additional keys are added with thenBy and
+ * thenByDescending and are used to order elements that compare equal on all previous keys.
+ * @export
+ * @class OrderedIterable
+ * @extends {Iterable<T>}
+ * @template T
+ */
+export class OrderedIterable<T> extends Iterable<T> {
+    /**
+     * @description Operators on an ordered iterable return plain iterables.
+     * @readonly
+     * @static
+     * @type {IterableSpecies}
+     * @memberof OrderedIterable
+     */
+    static get [Symbol.species](): IterableSpecies {
+        return Iterable;
+    }
+
+    /**
+     * Creates an instance of OrderedIterable.
+     * @param {LibIterable<T>} unordered The unordered source iterable.
+     * @param {SortKey<T>[]} sortKeys The keys to sort by, in order of precedence.
+     * @memberof OrderedIterable
+     */
+    constructor(private readonly unordered: LibIterable<T>, private readonly sortKeys: SortKey<T>[]) {
+        super(() => sortItems(unordered, sortKeys));
+        inheritTraces(unordered, this);
+    }
+
+    /**
+     * @description Performs a subsequent ascending sort of the elements by a key.
+     * @template K The type of the sort key.
+     * @param {(item: T) => K} keySelector Selects the sort key of each element.
+     * @param {Comparer<K>} [comparer] Optional comparer for keys. Defaults to comparing with relational operators.
+     * @returns {OrderedIterable<T>}
+     * @memberof OrderedIterable
+     */
+    thenBy<K>(keySelector: (item: T) => K, comparer?: Comparer<K>): OrderedIterable<T> {
+        return new OrderedIterable<T>(this.unordered, [
+            ...this.sortKeys,
+            createSortKey(keySelector, comparer, false)
+        ]);
+    }
+
+    /**
+     * @description Performs a subsequent descending sort of the elements by a key.
+     * @template K The type of the sort key.
+     * @param {(item: T) => K} keySelector Selects the sort key of each element.
+     * @param {Comparer<K>} [comparer] Optional comparer for keys. Defaults to comparing with relational operators.
+     * @returns {OrderedIterable<T>}
+     * @memberof OrderedIterable
+     */
+    thenByDescending<K>(keySelector: (item: T) => K, comparer?: Comparer<K>): OrderedIterable<T> {
+        return new OrderedIterable<T>(this.unordered, [
+            ...this.sortKeys,
+            createSortKey(keySelector, comparer, true)
+        ]);
+    }
+}
+
 export default Iterable;
@@ -0,0 +1,127 @@
+/**
+ * @description Options selecting the properties of an object that are enumerated. Without options, the enumerable
+ * string keyed properties of the object and its prototype chain are enumerated, like for...in does.
+ */
+export interface ObjectKeyOptions {
+    /**
+     * Whether to only enumerate the object's own properties, excluding inherited ones.
+     */
+    ownOnly?: boolean;
+    /**
+     * Whether to also enumerate symbol keyed properties.
+     */
+    symbols?: boolean;
+    /**
+     * Whether to also enumerate non-enumerable properties. Combined with inherited properties, this includes the
+     * members of Object.prototype.
+     */
+    nonEnumerable?: boolean;
+}
+
+/**
+ * @description The path of a value in nested objects and arrays. Object properties are named by strings and array
+ * elements by numbers.
+ */
+export type ObjectPath = (string | number)[];
+
+interface PathFrame {
+    container: any;
+    keys: ObjectPath;
+    position: number;
+}
+
+/**
+ * @description Enumerates the property keys of an object selected by options. Properties shadowed by a property
+ * closer on the prototype chain are skipped, whether or not that property is enumerated itself.
+ * @export
+ * @param {*} obj The object, which may be null or undefined.
+ * @param {ObjectKeyOptions} options The properties to enumerate.
+ * @returns {IterableIterator<string | symbol>}
+ */
+export function* objectKeys(obj: any, options: ObjectKeyOptions): IterableIterator<string | symbol> {
+    if (obj === null || obj === undefined) {
+        return;
+    }
+
+    const seen = new Set<PropertyKey>();
+    for (let target = Object(obj); target !== null; target = options.ownOnly ? null : Object.getPrototypeOf(target)) {
+        for (const key of Reflect.ownKeys(target) as (string | symbol)[]) {
+            if (seen.has(key)) {
+                continue;
+            }
+
+            seen.add(key);
+            if (typeof key === 'symbol' && !options.symbols) {
+                continue;
+            }
+
+            if (options.nonEnumerable || Object.prototype.propertyIsEnumerable.call(target, key)) {
+                yield key;
+            }
+        }
+    }
+}
+
+// Plain objects are created by object literals or Object.create(null). Instances of other classes are leaves.
+function isPlainObject(value: any): boolean {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+function containerKeys(value: any): ObjectPath | undefined {
+    if (Array.isArray(value)) {
+        return Array.from(value, (_, index) => index);
+    }
+
+    return isPlainObject(value) ? Object.keys(value) : undefined;
+}
+
+/**
+ * @description Enumerates the leaves of nested plain objects and arrays as [path, value] pairs, depth first.
+ * Values other than plain objects and arrays, as well as empty objects and arrays, are leaves. Nesting is tracked
+ * using a stack rather than recursion, so deep structures do not overflow the call stack.
+ * @export
+ * @param {*} root The root object or array. Other values are yielded as a single leaf with an empty path.
+ * @returns {IterableIterator<[ObjectPath, any]>}
+ */
+export function* objectPaths(root: any): IterableIterator<[ObjectPath, any]> {
+    const rootKeys = containerKeys(root);
+    if (!rootKeys || rootKeys.length === 0) {
+        yield [[], root];
+        return;
+    }
+
+    const ancestors = new Set<any>([root]);
+    // The stack holds the containers from the root down to the current one, so the path of a value is the current
+    // key of each frame.
+    const stack: PathFrame[] = [{ container: root, keys: rootKeys, position: 0 }];
+    const currentPath = () => stack.map(x => x.keys[x.position - 1]);
+    while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        if (frame.position === frame.keys.length) {
+            stack.pop();
+            ancestors.delete(frame.container);
+            continue;
+        }
+
+        const key = frame.keys[frame.position++];
+        const value = frame.container[key];
+        const keys = containerKeys(value);
+        if (!keys || keys.length === 0) {
+            yield [currentPath(), value];
+            continue;
+        }
+
+        if (ancestors.has(value)) {
+            const path = currentPath().join('.');
+            throw new TypeError(`Cannot enumerate the paths of a circular structure, found at ${path}`);
+        }
+
+        ancestors.add(value);
+        stack.push({ container: value, keys, position: 0 });
+    }
+}
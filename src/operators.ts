@@ -0,0 +1,624 @@
+import { createSet, defaultEqualityComparer, EqualityComparer } from './equality';
+import { ArgumentOutOfRangeError, validateArgument, validateCount } from './errors';
+import LibIterable from './types';
+
+/**
+ * @description A function of one argument. Used by pipe to compose operators.
+ */
+export type UnaryFunction<A, B> = (source: A) => B;
+
+/**
+ * @description An operator that lazily transforms an iterable of T into an iterable of R.
+ */
+export type Operator<T, R> = UnaryFunction<LibIterable<T>, LibIterable<R>>;
+
+function lazy<T>(factory: () => Iterator<T>): LibIterable<T> {
+    return { [Symbol.iterator]: factory };
+}
+
+/**
+ * @description Passes a value through a sequence of functions, each receiving the result of the previous one.
+ * @export
+ * @param {*} source The value passed to the first function.
+ * @param {...UnaryFunction<any, any>[]} operators The functions to apply, in order.
+ * @returns {*} The result of the last function, or the source when there are no functions.
+ */
+export function pipe<A>(source: A): A;
+export function pipe<A, B>(source: A, op1: UnaryFunction<A, B>): B;
+export function pipe<A, B, C>(source: A, op1: UnaryFunction<A, B>, op2: UnaryFunction<B, C>): C;
+export function pipe<A, B, C, D>(
+    source: A,
+    op1: UnaryFunction<A, B>,
+    op2: UnaryFunction<B, C>,
+    op3: UnaryFunction<C, D>
+): D;
+export function pipe<A, B, C, D, E>(
+    source: A,
+    op1: UnaryFunction<A, B>,
+    op2: UnaryFunction<B, C>,
+    op3: UnaryFunction<C, D>,
+    op4: UnaryFunction<D, E>
+): E;
+export function pipe<A, B, C, D, E, F>(
+    source: A,
+    op1: UnaryFunction<A, B>,
+    op2: UnaryFunction<B, C>,
+    op3: UnaryFunction<C, D>,
+    op4: UnaryFunction<D, E>,
+    op5: UnaryFunction<E, F>
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+    source: A,
+    op1: UnaryFunction<A, B>,
+    op2: UnaryFunction<B, C>,
+    op3: UnaryFunction<C, D>,
+    op4: UnaryFunction<D, E>,
+    op5: UnaryFunction<E, F>,
+    op6: UnaryFunction<F, G>
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+    source: A,
+    op1: UnaryFunction<A, B>,
+    op2: UnaryFunction<B, C>,
+    op3: UnaryFunction<C, D>,
+    op4: UnaryFunction<D, E>,
+    op5: UnaryFunction<E, F>,
+    op6: UnaryFunction<F, G>,
+    op7: UnaryFunction<G, H>
+): H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+    source: A,
+    op1: UnaryFunction<A, B>,
+    op2: UnaryFunction<B, C>,
+    op3: UnaryFunction<C, D>,
+    op4: UnaryFunction<D, E>,
+    op5: UnaryFunction<E, F>,
+    op6: UnaryFunction<F, G>,
+    op7: UnaryFunction<G, H>,
+    op8: UnaryFunction<H, I>
+): I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+    source: A,
+    op1: UnaryFunction<A, B>,
+    op2: UnaryFunction<B, C>,
+    op3: UnaryFunction<C, D>,
+    op4: UnaryFunction<D, E>,
+    op5: UnaryFunction<E, F>,
+    op6: UnaryFunction<F, G>,
+    op7: UnaryFunction<G, H>,
+    op8: UnaryFunction<H, I>,
+    op9: UnaryFunction<I, J>
+): J;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+    source: A,
+    op1: UnaryFunction<A, B>,
+    op2: UnaryFunction<B, C>,
+    op3: UnaryFunction<C, D>,
+    op4: UnaryFunction<D, E>,
+    op5: UnaryFunction<E, F>,
+    op6: UnaryFunction<F, G>,
+    op7: UnaryFunction<G, H>,
+    op8: UnaryFunction<H, I>,
+    op9: UnaryFunction<I, J>,
+    op10: UnaryFunction<J, K>
+): K;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L>(
+    source: A,
+    op1: UnaryFunction<A, B>,
+    op2: UnaryFunction<B, C>,
+    op3: UnaryFunction<C, D>,
+    op4: UnaryFunction<D, E>,
+    op5: UnaryFunction<E, F>,
+    op6: UnaryFunction<F, G>,
+    op7: UnaryFunction<G, H>,
+    op8: UnaryFunction<H, I>,
+    op9: UnaryFunction<I, J>,
+    op10: UnaryFunction<J, K>,
+    op11: UnaryFunction<K, L>
+): L;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+    source: A,
+    op1: UnaryFunction<A, B>,
+    op2: UnaryFunction<B, C>,
+    op3: UnaryFunction<C, D>,
+    op4: UnaryFunction<D, E>,
+    op5: UnaryFunction<E, F>,
+    op6: UnaryFunction<F, G>,
+    op7: UnaryFunction<G, H>,
+    op8: UnaryFunction<H, I>,
+    op9: UnaryFunction<I, J>,
+    op10: UnaryFunction<J, K>,
+    op11: UnaryFunction<K, L>,
+    op12: UnaryFunction<L, M>
+): M;
+export function pipe(source: any, ...operators: UnaryFunction<any, any>[]): any;
+export function pipe(source: any, ...operators: UnaryFunction<any, any>[]): any {
+    operators.forEach((operator, index) => validateArgument(operator, `operators[${index}]`));
+    return operators.reduce((result, operator) => operator(result), source);
+}
+
+/**
+ * @description Creates an operator that applies an accumulator function over the source, starting with the
+ * specified seed.
+ * @export
+ * @template T The type of the elements.
+ * @template A The type of the accumulated value.
+ * @param {A} seed The initial accumulated value.
+ * @param {(accumulated: A, item: T, index: number) => A} accumulator Computes the next accumulated value.
+ * @returns {UnaryFunction<LibIterable<T>, A>}
+ */
+export function aggregate<T, A>(
+    seed: A,
+    accumulator: (accumulated: A, item: T, index: number) => A
+): UnaryFunction<LibIterable<T>, A> {
+    validateArgument(accumulator, 'accumulator');
+    return source => {
+        let result = seed;
+        let index = 0;
+        for (const item of source) {
+            result = accumulator(result, item, index++);
+        }
+
+        return result;
+    };
+}
+
+/**
+ * @description Creates an operator that yields the elements of the source followed by those of another iterable.
+ * @export
+ * @template T The type of the elements.
+ * @param {LibIterable<T>} other The elements to append.
+ * @returns {Operator<T, T>}
+ */
+export function concat<T>(other: LibIterable<T>): Operator<T, T> {
+    return source =>
+        lazy(function* () {
+            yield* source;
+            yield* other;
+        });
+}
+
+/**
+ * @description Creates an operator that counts the elements of the source.
+ * @export
+ * @template T The type of the elements.
+ * @returns {UnaryFunction<LibIterable<T>, number>}
+ */
+export function count<T>(): UnaryFunction<LibIterable<T>, number> {
+    return source => {
+        let num = 0;
+        for (const _ of source) { ++num; }
+        return num;
+    };
+}
+
+/**
+ * @description Creates an operator that yields the elements of the source with distinct keys.
+ * @export
+ * @template T The type of the elements.
+ * @template K The type of the comparison key.
+ * @param {(item: T, index: number) => K} keySelector Selects the key used to compare elements.
+ * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+ * @returns {Operator<T, T>}
+ */
+export function distinct<T, K>(
+    keySelector: (item: T, index: number) => K,
+    comparer?: EqualityComparer<K>
+): Operator<T, T> {
+    validateArgument(keySelector, 'keySelector');
+    return source =>
+        lazy(function* () {
+            const set = createSet<K>(comparer);
+            let index = 0;
+            for (const item of source) {
+                const key = keySelector(item, index++);
+                if (!set.has(key)) {
+                    set.add(key);
+                    yield item;
+                }
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that yields the elements of the source whose key differs from the key of the
+ * element before them. Unlike distinct, only the previous key is kept in memory.
+ * @export
+ * @template T The type of the elements.
+ * @template K The type of the comparison key.
+ * @param {(item: T, index: number) => K} [keySelector] Optional selector for the key used to compare elements.
+ * Defaults to the elements themselves.
+ * @param {EqualityComparer<K>} [comparer] Optional comparer for keys. Defaults to SameValueZero equality.
+ * @returns {Operator<T, T>}
+ */
+export function distinctUntilChanged<T, K = T>(
+    keySelector?: (item: T, index: number) => K,
+    comparer: EqualityComparer<K> = defaultEqualityComparer
+): Operator<T, T> {
+    validateArgument(comparer, 'comparer');
+    return source =>
+        lazy(function* () {
+            let hasPrevious = false;
+            let previous: K;
+            let index = 0;
+            for (const item of source) {
+                const key = keySelector ? keySelector(item, index) : (item as any as K);
+                index++;
+                if (!hasPrevious || !comparer.equals(previous, key)) {
+                    yield item;
+                }
+
+                previous = key;
+                hasPrevious = true;
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that determines whether all elements of the source satisfy a test.
+ * @export
+ * @template T The type of the elements.
+ * @param {(item: T, index: number) => boolean} test The test function.
+ * @returns {UnaryFunction<LibIterable<T>, boolean>}
+ */
+export function every<T>(test: (item: T, index: number) => boolean): UnaryFunction<LibIterable<T>, boolean> {
+    validateArgument(test, 'test');
+    return source => {
+        let index = 0;
+        for (const item of source) {
+            if (!test(item, index++)) {
+                return false;
+            }
+        }
+
+        return true;
+    };
+}
+
+/**
+ * @description Creates an operator that yields only the elements of the source that satisfy a filter.
+ * @export
+ * @template T The type of the elements.
+ * @param {(item: T, index: number) => boolean} filter The filter to apply on the source.
+ * @returns {Operator<T, T>}
+ */
+export function filter<T>(filter: (item: T, index: number) => boolean): Operator<T, T> {
+    validateArgument(filter, 'filter');
+    return source =>
+        lazy(function* () {
+            let index = 0;
+            for (const item of source) {
+                if (filter(item, index++)) {
+                    yield item;
+                }
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that yields the elements of the source and invokes an action once an
+ * enumeration ends, whether it completed, was stopped early or failed. Enumerations that never pulled an element do
+ * not invoke the action.
+ * @export
+ * @template T The type of the elements.
+ * @param {() => void} action The action to invoke.
+ * @returns {Operator<T, T>}
+ */
+export function finalize<T>(action: () => void): Operator<T, T> {
+    validateArgument(action, 'action');
+    return source =>
+        lazy(function* () {
+            try {
+                yield* source;
+            } finally {
+                action();
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that gets the first element of the source.
+ * @export
+ * @template T The type of the elements.
+ * @param {(item: T, index: number) => boolean} [filter] Optional filter applied to find the first matching element.
+ * @returns {UnaryFunction<LibIterable<T>, T>} An operator returning the first element, or null when there is none.
+ */
+export function first<T>(filter?: (item: T, index: number) => boolean): UnaryFunction<LibIterable<T>, T> {
+    return source => {
+        let index = 0;
+        for (const item of source) {
+            if (!filter || filter(item, index++)) {
+                return item;
+            }
+        }
+
+        return null;
+    };
+}
+
+/**
+ * @description Creates an operator that gets an array of the elements of the source.
+ * @export
+ * @template T The type of the elements.
+ * @returns {UnaryFunction<LibIterable<T>, T[]>}
+ */
+export function items<T>(): UnaryFunction<LibIterable<T>, T[]> {
+    return source => [...source];
+}
+
+/**
+ * @description Creates an operator that yields the value returned by a selector for each element of the source.
+ * @export
+ * @template T The type of the elements.
+ * @template V The type of the selected values.
+ * @param {(item: T, index: number) => V} selector The callback function to invoke for each element.
+ * @returns {Operator<T, V>}
+ */
+export function map<T, V>(selector: (item: T, index: number) => V): Operator<T, V> {
+    validateArgument(selector, 'selector');
+    return source =>
+        lazy(function* () {
+            let index = 0;
+            for (const item of source) {
+                yield selector(item, index++);
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that yields the elements of the iterables returned by a selector for each
+ * element of the source.
+ * @export
+ * @template T The type of the elements.
+ * @template V The type of the selected values.
+ * @param {(item: T, index: number) => LibIterable<V>} selector The callback function to invoke for each element.
+ * @returns {Operator<T, V>}
+ */
+export function mapMany<T, V>(selector: (item: T, index: number) => LibIterable<V>): Operator<T, V> {
+    validateArgument(selector, 'selector');
+    return source =>
+        lazy(function* () {
+            let index = 0;
+            for (const item of source) {
+                yield* selector(item, index++);
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that yields each element of the source paired with the element that follows it.
+ * @export
+ * @template T The type of the elements.
+ * @returns {Operator<T, [T, T]>}
+ */
+export function pairwise<T>(): Operator<T, [T, T]> {
+    return source =>
+        lazy(function* () {
+            let hasPrevious = false;
+            let previous: T;
+            for (const item of source) {
+                if (hasPrevious) {
+                    yield [previous, item] as [T, T];
+                }
+
+                previous = item;
+                hasPrevious = true;
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that expands [element, count] pairs into the element repeated count times. It is
+ * the inverse of runLengthEncode.
+ * @export
+ * @template T The type of the elements.
+ * @returns {Operator<[T, number], T>}
+ */
+export function runLengthDecode<T>(): Operator<[T, number], T> {
+    return source =>
+        lazy(function* () {
+            for (const [item, count] of source) {
+                if (!Number.isInteger(count) || count < 0) {
+                    throw new ArgumentOutOfRangeError('count', count, 'a non-negative integer');
+                }
+
+                for (let i = 0; i < count; i++) {
+                    yield item;
+                }
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that collapses runs of consecutive equal elements into [element, count] pairs,
+ * where the element is the first of its run.
+ * @export
+ * @template T The type of the elements.
+ * @param {EqualityComparer<T>} [comparer] Optional comparer for elements. Defaults to SameValueZero equality.
+ * @returns {Operator<T, [T, number]>}
+ */
+export function runLengthEncode<T>(comparer: EqualityComparer<T> = defaultEqualityComparer): Operator<T, [T, number]> {
+    validateArgument(comparer, 'comparer');
+    return source =>
+        lazy(function* () {
+            let current: T;
+            let count = 0;
+            for (const item of source) {
+                if (count > 0 && comparer.equals(current, item)) {
+                    count++;
+                    continue;
+                }
+
+                if (count > 0) {
+                    yield [current, count] as [T, number];
+                }
+
+                current = item;
+                count = 1;
+            }
+
+            if (count > 0) {
+                yield [current, count] as [T, number];
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that applies an accumulator function over the source and yields each
+ * intermediate result. Unlike aggregate, the accumulations are yielded as they are computed.
+ * @export
+ * @template T The type of the elements.
+ * @template A The type of the accumulated value.
+ * @param {A} seed The initial value of the accumulator. It is not yielded itself.
+ * @param {(accumulated: A, item: T, index: number) => A} accumulator The accumulator function.
+ * @returns {Operator<T, A>}
+ */
+export function scan<T, A>(seed: A, accumulator: (accumulated: A, item: T, index: number) => A): Operator<T, A> {
+    validateArgument(accumulator, 'accumulator');
+    return source =>
+        lazy(function* () {
+            let accumulated = seed;
+            let index = 0;
+            for (const item of source) {
+                accumulated = accumulator(accumulated, item, index++);
+                yield accumulated;
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that bypasses the specified number of elements and yields the rest.
+ * @export
+ * @template T The type of the elements.
+ * @param {number} count The number of elements to skip.
+ * @returns {Operator<T, T>}
+ */
+export function skip<T>(count: number): Operator<T, T> {
+    validateCount(count, 'count');
+    return source =>
+        lazy(function* () {
+            let skipped = 0;
+            for (const item of source) {
+                if (skipped < count) {
+                    skipped++;
+                } else {
+                    yield item;
+                }
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that bypasses elements as long as a predicate is satisfied and yields the rest,
+ * including the first element that did not satisfy it.
+ * @export
+ * @template T The type of the elements.
+ * @param {(item: T, index: number) => boolean} predicate The test applied to each element.
+ * @returns {Operator<T, T>}
+ */
+export function skipWhile<T>(predicate: (item: T, index: number) => boolean): Operator<T, T> {
+    validateArgument(predicate, 'predicate');
+    return source =>
+        lazy(function* () {
+            let skipping = true;
+            let index = 0;
+            for (const item of source) {
+                if (skipping && predicate(item, index++)) {
+                    continue;
+                }
+
+                skipping = false;
+                yield item;
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that determines whether any element of the source satisfies a filter.
+ * @export
+ * @template T The type of the elements.
+ * @param {(item: T, index: number) => boolean} filter The filter to apply on the source.
+ * @returns {UnaryFunction<LibIterable<T>, boolean>}
+ */
+export function some<T>(filter: (item: T, index: number) => boolean): UnaryFunction<LibIterable<T>, boolean> {
+    validateArgument(filter, 'filter');
+    return source => {
+        let index = 0;
+        for (const item of source) {
+            if (filter(item, index++)) {
+                return true;
+            }
+        }
+
+        return false;
+    };
+}
+
+/**
+ * @description Creates an operator that yields the specified number of elements from the start of the source. The
+ * source is not pulled from again once that many elements were yielded, which makes it safe on infinite sources.
+ * @export
+ * @template T The type of the elements.
+ * @param {number} count The number of elements to take.
+ * @returns {Operator<T, T>}
+ */
+export function take<T>(count: number): Operator<T, T> {
+    validateCount(count, 'count');
+    return source =>
+        lazy(function* () {
+            if (count === 0) {
+                return;
+            }
+
+            let taken = 0;
+            for (const item of source) {
+                yield item;
+                if (++taken >= count) {
+                    return;
+                }
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that yields elements from the start of the source as long as a predicate is
+ * satisfied. The source is not pulled from again after the first element that does not satisfy it.
+ * @export
+ * @template T The type of the elements.
+ * @param {(item: T, index: number) => boolean} predicate The test applied to each element.
+ * @returns {Operator<T, T>}
+ */
+export function takeWhile<T>(predicate: (item: T, index: number) => boolean): Operator<T, T> {
+    validateArgument(predicate, 'predicate');
+    return source =>
+        lazy(function* () {
+            let index = 0;
+            for (const item of source) {
+                if (!predicate(item, index++)) {
+                    return;
+                }
+
+                yield item;
+            }
+        });
+}
+
+/**
+ * @description Creates an operator that invokes an action for each element as it is enumerated and yields the
+ * element unchanged. Useful for logging and debugging pipelines.
+ * @export
+ * @template T The type of the elements.
+ * @param {(item: T, index: number) => void} action The action to invoke.
+ * @returns {Operator<T, T>}
+ */
+export function tap<T>(action: (item: T, index: number) => void): Operator<T, T> {
+    validateArgument(action, 'action');
+    return source =>
+        lazy(function* () {
+            let index = 0;
+            for (const item of source) {
+                action(item, index++);
+                yield item;
+            }
+        });
+}
@@ -0,0 +1,143 @@
+import { ArgumentOutOfRangeError } from './errors';
+
+/**
+ * @description A clock and timer used by time-based operators. Injecting a scheduler makes those operators testable
+ * without real timers.
+ */
+export interface Scheduler {
+    /**
+     * Gets the current time in milliseconds.
+     */
+    now(): number;
+    /**
+     * Invokes a callback once the specified number of milliseconds elapsed, and returns a function cancelling it.
+     */
+    schedule(callback: () => void, delay: number): () => void;
+}
+
+/**
+ * @description A scheduler using the system clock and setTimeout.
+ */
+export const defaultScheduler: Scheduler = {
+    now: () => Date.now(),
+    schedule: (callback, delay) => {
+        const handle = setTimeout(callback, delay);
+        return () => clearTimeout(handle);
+    }
+};
+
+interface ScheduledTask {
+    time: number;
+    callback: () => void;
+}
+
+function flushPromises(): Promise<void> {
+    // A macrotask runs only after all pending promise callbacks ran, including the ones they queued.
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * @description A scheduler whose time only moves when it is advanced, for deterministic tests of time-based
+ * operators. Advancing runs the callbacks that became due in order of their due time, and lets pending promise
+ * callbacks run after each of them, so async code reacting to a callback can schedule further callbacks before the
+ * next one runs.
+ * @export
+ * @class VirtualScheduler
+ * @implements {Scheduler}
+ */
+export class VirtualScheduler implements Scheduler {
+    private time: number;
+    // Tasks are kept in the order they were scheduled, which orders tasks that are due at the same time.
+    private readonly tasks: ScheduledTask[] = [];
+
+    /**
+     * Creates an instance of VirtualScheduler.
+     * @param {number} [start=0] The initial time in milliseconds.
+     * @memberof VirtualScheduler
+     */
+    constructor(start: number = 0) {
+        this.time = start;
+    }
+
+    /**
+     * @description Gets the number of callbacks that were scheduled and did not run or were cancelled yet.
+     * @readonly
+     * @type {number}
+     * @memberof VirtualScheduler
+     */
+    get pending(): number {
+        return this.tasks.length;
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    schedule(callback: () => void, delay: number): () => void {
+        const task = { time: this.time + Math.max(0, delay), callback };
+        this.tasks.push(task);
+        return () => {
+            const index = this.tasks.indexOf(task);
+            if (index >= 0) {
+                this.tasks.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * @description Moves the time forward by the specified number of milliseconds, running the callbacks that become
+     * due.
+     * @param {number} milliseconds The number of milliseconds to advance by.
+     * @returns {Promise<void>} A promise resolved once the time was advanced.
+     * @memberof VirtualScheduler
+     */
+    advanceBy(milliseconds: number): Promise<void> {
+        if (typeof milliseconds !== 'number' || !(milliseconds >= 0)) {
+            throw new ArgumentOutOfRangeError('milliseconds', milliseconds, 'a non-negative number');
+        }
+
+        return this.advanceTo(this.time + milliseconds);
+    }
+
+    /**
+     * @description Moves the time forward to the specified time, running the callbacks that become due.
+     * @param {number} time The time to advance to. Must not be before the current time.
+     * @returns {Promise<void>} A promise resolved once the time was advanced.
+     * @memberof VirtualScheduler
+     */
+    advanceTo(time: number): Promise<void> {
+        if (typeof time !== 'number' || !(time >= this.time)) {
+            throw new ArgumentOutOfRangeError('time', time, `a number not before the current time ${this.time}`);
+        }
+
+        return this.run(time);
+    }
+
+    private async run(time: number): Promise<void> {
+        await flushPromises();
+        while (true) {
+            const task = this.nextTask(time);
+            if (!task) {
+                break;
+            }
+
+            this.tasks.splice(this.tasks.indexOf(task), 1);
+            this.time = task.time;
+            task.callback();
+            await flushPromises();
+        }
+
+        this.time = time;
+    }
+
+    private nextTask(until: number): ScheduledTask | undefined {
+        let next: ScheduledTask;
+        for (const task of this.tasks) {
+            if (task.time <= until && (!next || task.time < next.time)) {
+                next = task;
+            }
+        }
+
+        return next;
+    }
+}
@@ -0,0 +1,80 @@
+import { ArgumentOutOfRangeError } from './errors';
+import LibIterable from './types';
+
+/**
+ * @description Descriptive statistics of a sequence of numbers. The variance and standard deviation are those of
+ * the population.
+ */
+export interface Statistics {
+    count: number;
+    sum: number;
+    min: number;
+    max: number;
+    mean: number;
+    variance: number;
+    stddev: number;
+    median: number;
+    percentiles: { [percentile: number]: number };
+}
+
+/**
+ * @description Computes the statistics of a sequence of numbers. Count, sum, min, max, mean and variance are
+ * computed in a single pass using Welford's algorithm. The median and percentiles require the values to be sorted,
+ * and are computed using linear interpolation between the closest ranks.
+ * @export
+ * @param {LibIterable<number>} values The values to compute statistics for.
+ * @param {number[]} percentiles The percentiles (between 0 and 100) to compute.
+ * @returns {Statistics} The statistics, or null when there are no values.
+ */
+export function computeStatistics(values: LibIterable<number>, percentiles: number[]): Statistics {
+    for (const percentile of percentiles) {
+        if (typeof percentile !== 'number' || percentile < 0 || percentile > 100) {
+            throw new ArgumentOutOfRangeError('percentile', percentile, 'between 0 and 100');
+        }
+    }
+
+    const sorted: number[] = [];
+    let count = 0;
+    let sum = 0;
+    let mean = 0;
+    let squaredDistance = 0;
+    for (const value of values) {
+        count++;
+        sum += value;
+        const delta = value - mean;
+        mean += delta / count;
+        squaredDistance += delta * (value - mean);
+        sorted.push(value);
+    }
+
+    if (count === 0) {
+        return null;
+    }
+
+    sorted.sort((a, b) => a - b);
+    const variance = squaredDistance / count;
+    const result: Statistics = {
+        count,
+        sum,
+        min: sorted[0],
+        max: sorted[count - 1],
+        mean,
+        variance,
+        stddev: Math.sqrt(variance),
+        median: percentileOf(sorted, 50),
+        percentiles: {}
+    };
+
+    for (const percentile of percentiles) {
+        result.percentiles[percentile] = percentileOf(sorted, percentile);
+    }
+
+    return result;
+}
+
+function percentileOf(sorted: number[], percentile: number): number {
+    const rank = (percentile / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
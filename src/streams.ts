@@ -0,0 +1,145 @@
+import { Readable, ReadableOptions } from 'stream';
+import { AsyncIterable, AsyncSource } from './asyncIterable';
+import { validateArgument } from './errors';
+
+function toAsyncIterable<T>(source: AsyncSource<T>): AsyncIterable<T> {
+    validateArgument(source, 'source');
+    return source instanceof AsyncIterable ? source : new AsyncIterable(source);
+}
+
+/**
+ * @description Creates an async iterable over the chunks of a Node.js Readable. Chunks are read on demand, so a
+ * slow consumer applies backpressure to the stream. Errors emitted by the stream reject the iteration, and when the
+ * consumer stops early, e.g. using break, the stream is destroyed. Like the stream, the iterable can be enumerated
+ * only once.
+ * @export
+ * @template T The type of the chunks. Objects for streams in object mode, otherwise strings or Buffers.
+ * @param {Readable} readable The stream to read from.
+ * @returns {AsyncIterable<T>}
+ */
+export function fromReadable<T = any>(readable: Readable): AsyncIterable<T> {
+    validateArgument(readable, 'readable');
+    return new AsyncIterable<T>(async function* () {
+        // The async iterator of Readable reads on demand and destroys the stream when returned early.
+        for await (const chunk of readable) {
+            yield chunk;
+        }
+    });
+}
+
+/**
+ * @description Creates an async iterable over the chunks of a WHATWG ReadableStream. Chunks are read on demand, so a
+ * slow consumer applies backpressure to the stream. Errors of the stream reject the iteration, and when the consumer
+ * stops early, e.g. using break, the stream is cancelled. Like the stream, the iterable can be enumerated only once.
+ * @export
+ * @template T The type of the chunks.
+ * @param {ReadableStream<T>} stream The stream to read from.
+ * @returns {AsyncIterable<T>}
+ */
+export function fromReadableStream<T>(stream: ReadableStream<T>): AsyncIterable<T> {
+    validateArgument(stream, 'stream');
+    return new AsyncIterable<T>(async function* () {
+        const reader = stream.getReader();
+        let finished = false;
+        try {
+            while (true) {
+                let result: ReadableStreamReadResult<T>;
+                try {
+                    result = await reader.read();
+                } catch (e) {
+                    finished = true;
+                    throw e;
+                }
+
+                if (result.done) {
+                    finished = true;
+                    return;
+                }
+
+                yield result.value;
+            }
+        } finally {
+            if (!finished) {
+                await reader.cancel();
+            }
+
+            reader.releaseLock();
+        }
+    });
+}
+
+/**
+ * @description Creates a Node.js Readable in object mode that yields the elements of an iterable or async iterable.
+ * Elements are only pulled from the source when the stream's buffer is below its high water mark. Errors of the
+ * source destroy the stream with that error, and destroying the stream returns the source's iterator, so its
+ * finally blocks run. Sources must not contain null, which would end the stream.
+ * @export
+ * @template T The type of the elements.
+ * @param {AsyncSource<T>} source The elements of the stream.
+ * @param {ReadableOptions} [options] Optional options for the stream, such as its high water mark.
+ * @returns {Readable}
+ */
+export function toReadable<T>(source: AsyncSource<T>, options?: ReadableOptions): Readable {
+    const iterable = toAsyncIterable(source);
+    let iterator: AsyncIterator<T>;
+    return new Readable({
+        objectMode: true,
+        ...options,
+        async read(this: Readable): Promise<void> {
+            // Node calls read again after each push while the buffer is below the high water mark.
+            try {
+                iterator = iterator || iterable[Symbol.asyncIterator]();
+                const result = await iterator.next();
+                this.push(result.done ? null : result.value);
+            } catch (e) {
+                this.destroy(e);
+            }
+        },
+        destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+            const returned: Promise<any> = iterator ? iterator.return() : Promise.resolve();
+            returned.then(
+                () => callback(error),
+                e => callback(error || e)
+            );
+        }
+    });
+}
+
+/**
+ * @description Creates a WHATWG ReadableStream that yields the elements of an iterable or async iterable. Elements are
+ * only pulled from the source when the stream's queue is below its high water mark, which defaults to 0 so that
+ * elements are pulled as they are read. Errors of the source error the stream, and cancelling the stream returns the
+ * source's iterator, so its finally blocks run.
+ * @export
+ * @template T The type of the elements.
+ * @param {AsyncSource<T>} source The elements of the stream.
+ * @param {QueuingStrategy<T>} [strategy] Optional queuing strategy of the stream.
+ * @returns {ReadableStream<T>}
+ */
+export function toReadableStream<T>(
+    source: AsyncSource<T>,
+    strategy: QueuingStrategy<T> = { highWaterMark: 0 }
+): ReadableStream<T> {
+    const iterable = toAsyncIterable(source);
+    let iterator: AsyncIterator<T>;
+    return new ReadableStream<T>(
+        {
+            async pull(controller: ReadableStreamDefaultController<T>): Promise<void> {
+                iterator = iterator || iterable[Symbol.asyncIterator]();
+                // A rejected pull errors the stream with the same error.
+                const result = await iterator.next();
+                if (result.done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(result.value);
+                }
+            },
+            async cancel(): Promise<void> {
+                if (iterator) {
+                    await iterator.return();
+                }
+            }
+        },
+        strategy
+    );
+}
@@ -0,0 +1,101 @@
+import LibIterable from './types';
+
+/**
+ * @description The metrics recorded for an operator applied while tracing was enabled. Counts accumulate over all
+ * enumerations of the operator's result.
+ */
+export interface StageTrace {
+    /**
+     * The name of the operator, e.g. 'filter'.
+     */
+    readonly operator: string;
+    /**
+     * The arguments the operator was called with.
+     */
+    readonly args: any[];
+    /**
+     * The number of elements the operator pulled from its source.
+     */
+    itemsIn: number;
+    /**
+     * The number of elements the operator yielded.
+     */
+    itemsOut: number;
+    /**
+     * The time in milliseconds spent in the callbacks passed to the operator, such as selectors and predicates.
+     */
+    callbackTime: number;
+}
+
+/**
+ * @description A function notified with the trace of an operator each time an enumeration of its result ends,
+ * whether it completed, was stopped early or failed.
+ */
+export type TraceHook = (stage: StageTrace) => void;
+
+/**
+ * @description Creates an empty trace for an operator.
+ * @export
+ * @param {string} operator The name of the operator.
+ * @param {any[]} args The arguments the operator was called with.
+ * @returns {StageTrace}
+ */
+export function createStage(operator: string, args: any[]): StageTrace {
+    return { operator, args, itemsIn: 0, itemsOut: 0, callbackTime: 0 };
+}
+
+// The performance global is only available in browsers and Node 16 or later.
+function now(): number {
+    return typeof performance === 'undefined' ? Date.now() : performance.now();
+}
+
+/**
+ * @description Wraps a callback so that the time spent in it is added to the callback time of a trace.
+ * @export
+ * @template F The type of the callback.
+ * @param {F} callback The callback to time.
+ * @param {StageTrace} stage The trace to record the time in.
+ * @returns {F}
+ */
+export function timeCallback<F extends (...args: any[]) => any>(callback: F, stage: StageTrace): F {
+    return ((...args: any[]) => {
+        const start = now();
+        try {
+            return callback(...args);
+        } finally {
+            stage.callbackTime += now() - start;
+        }
+    }) as F;
+}
+
+/**
+ * @description Wraps an iterable so that the elements enumerated from it are counted in a trace.
+ * @export
+ * @template T The type of the elements.
+ * @param {LibIterable<T>} source The iterable to count the elements of.
+ * @param {StageTrace} stage The trace to record the count in.
+ * @param {('itemsIn' | 'itemsOut')} counter The count to increment for each element.
+ * @param {() => void} [onEnd] Optional function invoked each time an enumeration ends.
+ * @returns {LibIterable<T>}
+ */
+export function countItems<T>(
+    source: LibIterable<T>,
+    stage: StageTrace,
+    counter: 'itemsIn' | 'itemsOut',
+    onEnd?: () => void
+): LibIterable<T> {
+    return {
+        *[Symbol.iterator](): Iterator<T> {
+            try {
+                for (const item of source) {
+                    stage[counter]++;
+                    yield item;
+                }
+            } finally {
+                if (onEnd) {
+                    onEnd();
+                }
+            }
+        }
+    };
+}
@@ -1,3 +1,4 @@
 type LibIterable<T> = Iterable<T>;
+export type LibAsyncIterable<T> = AsyncIterable<T>;
 
 export default LibIterable;
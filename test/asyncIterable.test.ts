@@ -0,0 +1,695 @@
+import 'mocha';
+import { expect } from 'chai';
+import Iterable, {
+    AbortError,
+    ArgumentNullError,
+    ArgumentOutOfRangeError,
+    AsyncIterable,
+    caseInsensitiveEqualityComparer,
+    CompositeError,
+    TimeoutError,
+    VirtualScheduler
+} from '../src';
+
+async function expectRejection(promise: Promise<any>, errorType: any): Promise<void> {
+    try {
+        await promise;
+    } catch (e) {
+        expect(e).to.be.instanceOf(errorType);
+        return;
+    }
+
+    expect.fail('Expected promise to be rejected');
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('AsyncIterable', () => {
+    it('.items should reject when source is not iterable', async () => {
+        await expectRejection(new AsyncIterable(1 as any).items(), TypeError);
+    });
+
+    it('.items should reject when source is null or undefined', async () => {
+        await expectRejection(new AsyncIterable(null).items(), TypeError);
+        await expectRejection(new AsyncIterable(undefined).items(), TypeError);
+    });
+
+    it('.ctor should support async generators', async () => {
+        const iterable = new AsyncIterable(async function* () {
+            yield 1;
+            await delay(1);
+            yield 2;
+        });
+
+        expect(await iterable.count()).to.equal(2);
+    });
+
+    it('.ctor should support async factory functions', async () => {
+        const iterable = new AsyncIterable(async () => [1, 2, 3]);
+        expect(await iterable.items()).to.eql([1, 2, 3]);
+    });
+
+    it('.ctor should support sync iterables', async () => {
+        const iterable = new AsyncIterable(new Set([1, 2]));
+        expect(await iterable.items()).to.eql([1, 2]);
+    });
+
+    it('.empty should return an empty async iterable', async () => {
+        expect(await AsyncIterable.empty<string>().count()).to.equal(0);
+    });
+
+    it('.filter should throw when filter is null or undefined', () => {
+        const iterable = new AsyncIterable([1, 2, 3]);
+        expect(() => iterable.filter(null)).to.throw(ReferenceError);
+        expect(() => iterable.filter(undefined)).to.throw(ArgumentNullError);
+    });
+
+    it('.map and .mapMany should throw when selector is null or undefined', () => {
+        const iterable = new AsyncIterable([1, 2, 3]);
+        expect(() => iterable.map(null)).to.throw(ArgumentNullError);
+        expect(() => iterable.mapMany(undefined)).to.throw(ArgumentNullError);
+    });
+
+    it('.some and .every should reject when the callback is null', async () => {
+        const iterable = new AsyncIterable([1, 2, 3]);
+        await expectRejection(iterable.some(null), ArgumentNullError);
+        await expectRejection(iterable.every(undefined), ArgumentNullError);
+    });
+
+    it('.distinct should throw when selector is null or undefined', () => {
+        const iterable = new AsyncIterable([1, 2, 3]);
+        expect(() => iterable.distinct(null)).to.throw(ReferenceError);
+        expect(() => iterable.distinct(undefined)).to.throw(ReferenceError);
+    });
+
+    describe('from async generators', () => {
+        let iterable: AsyncIterable<string>;
+
+        beforeEach(() => {
+            iterable = new AsyncIterable(async function* () {
+                for (const item of [
+                    'alpha',
+                    'bravo',
+                    'charlie',
+                    'delta',
+                    'echo',
+                    'foxtrot',
+                    'golf',
+                    'hotel',
+                    'lima',
+                    'charlie'
+                ]) {
+                    await delay(0);
+                    yield item;
+                }
+            });
+        });
+
+        it('.count should return count', async () => {
+            expect(await iterable.count()).to.equal(10);
+        });
+
+        it('.distinct should return distinct entries', async () => {
+            const items = await iterable.distinct(async x => x).items();
+            expect(items.length).to.equal(9);
+            expect(items.filter(x => x === 'charlie').length).to.equal(1);
+        });
+
+        it('.distinct should support equality comparers', async () => {
+            const items = await iterable
+                .map((x, i) => (i % 2 ? x.toUpperCase() : x))
+                .distinct(x => x, caseInsensitiveEqualityComparer)
+                .items();
+
+            expect(items.length).to.equal(9);
+            expect(items[2]).to.equal('charlie');
+        });
+
+        it('.distinct should be invocable multiple times', async () => {
+            const items = iterable.distinct(x => x);
+            expect(await items.count()).to.equal(9);
+            expect(await items.count()).to.equal(9);
+        });
+
+        it('.filter should filter items', async () => {
+            const items = await iterable.filter(async x => x.includes('l')).items();
+            expect(items.length).to.equal(7);
+            expect(items.some(x => x === 'alpha')).to.be.true;
+        });
+
+        it('.first should get the first item', async () => {
+            expect(await iterable.first()).to.equal('alpha');
+        });
+
+        it('.first should return first filtered item', async () => {
+            expect(await iterable.first(async x => x.startsWith('b'))).to.equal('bravo');
+        });
+
+        it('.first should return null when no item matches filter', async () => {
+            expect(await iterable.first(x => x.includes('z'))).to.be.null;
+        });
+
+        it('.first should return null when source is empty', async () => {
+            expect(await AsyncIterable.empty<string>().first()).to.be.null;
+        });
+
+        it('.map should map all items', async () => {
+            const items = await iterable.map(async (x, i) => x + i.toString()).items();
+            expect(items.length).to.equal(10);
+            expect(items[0]).to.equal('alpha0');
+            expect(items[5]).to.equal('foxtrot5');
+            expect(items[9]).to.equal('charlie9');
+        });
+
+        it('.mapMany should map all items', async () => {
+            const count = await iterable
+                .map(x => x.split(''))
+                .mapMany(x => x)
+                .distinct(x => x)
+                .count();
+
+            expect(count).to.equal(17); // Distinct characters
+        });
+
+        it('.mapMany should support async iterables', async () => {
+            const items = await iterable
+                .filter((_, i) => i < 2)
+                .mapMany(async x => new AsyncIterable([x, x.toUpperCase()]))
+                .items();
+
+            expect(items).to.eql(['alpha', 'ALPHA', 'bravo', 'BRAVO']);
+        });
+
+        it('.some should return true when entity exists', async () => {
+            expect(await iterable.some(async x => x.includes('x'))).to.be.true;
+        });
+
+        it('.some should return false when entity does not exist', async () => {
+            expect(await iterable.some(x => x.includes('z'))).to.be.false;
+        });
+
+        it('.every should return true when all elements match condition', async () => {
+            expect(await iterable.every(async (x, i) => x.length > 0 && i >= 0)).to.be.true;
+        });
+
+        it('.every should return false when any element does not match condition', async () => {
+            expect(await iterable.every(x => x === 'alpha')).to.be.false;
+        });
+    });
+
+    describe('concat', () => {
+        it('can concatenate with arrays', async () => {
+            const src = new AsyncIterable(['a', 'b']);
+            expect(await src.concat(['c', 'd']).items()).to.eql(['a', 'b', 'c', 'd']);
+        });
+
+        it('can concatenate with async iterables', async () => {
+            const src = new AsyncIterable(['a', 'b']);
+            const result = src.concat(
+                new AsyncIterable(async function* () {
+                    yield 'c';
+                })
+            );
+            expect(await result.items()).to.eql(['a', 'b', 'c']);
+        });
+    });
+
+    describe('concurrency', () => {
+        function tracked(count: number) {
+            const state = { pulled: 0, closed: false, active: 0, peak: 0 };
+            const source = new AsyncIterable(async function* () {
+                try {
+                    for (let i = 0; i < count; i++) {
+                        state.pulled++;
+                        yield i;
+                    }
+                } finally {
+                    state.closed = true;
+                }
+            });
+
+            const run = async <V>(ms: number, result: V) => {
+                state.active++;
+                state.peak = Math.max(state.peak, state.active);
+                await delay(ms);
+                state.active--;
+                return result;
+            };
+
+            return { state, source, run };
+        }
+
+        it('.mapConcurrent should validate arguments', () => {
+            const iterable = new AsyncIterable([1]);
+            expect(() => iterable.mapConcurrent(null, { concurrency: 1 })).to.throw(ArgumentNullError);
+            expect(() => iterable.mapConcurrent(x => x, null)).to.throw(ArgumentNullError);
+            expect(() => iterable.mapConcurrent(x => x, { concurrency: 0 })).to.throw(ArgumentOutOfRangeError);
+            expect(() => iterable.mapConcurrent(x => x, { concurrency: 1.5 })).to.throw(ArgumentOutOfRangeError);
+            expect(() => iterable.mapConcurrent(x => x, { concurrency: 1, errorMode: 'ignore' as any })).to.throw(
+                ArgumentOutOfRangeError
+            );
+        });
+
+        it('.mapConcurrent should limit the callbacks in flight', async () => {
+            const { state, source, run } = tracked(10);
+            const items = await source.mapConcurrent(x => run(x % 3, x * 2), { concurrency: 3 }).items();
+            expect(items).to.eql([0, 2, 4, 6, 8, 10, 12, 14, 16, 18]);
+            expect(state.peak).to.equal(3);
+        });
+
+        it('.mapConcurrent should support unlimited concurrency and sync sources', async () => {
+            const { state, run } = tracked(0);
+            const items = await new AsyncIterable([1, 2, 3, 4])
+                .mapConcurrent((x, i) => run(5, x + i), { concurrency: Infinity })
+                .items();
+
+            expect(items).to.eql([1, 3, 5, 7]);
+            expect(state.peak).to.equal(4);
+        });
+
+        it('.mapConcurrent should yield results as they complete when unordered', async () => {
+            const items = await new AsyncIterable([30, 10, 20])
+                .mapConcurrent(x => delay(x).then(() => x), { concurrency: 3, ordered: false })
+                .items();
+
+            expect(items).to.eql([10, 20, 30]);
+        });
+
+        it('.mapConcurrent should bound results held back for ordering', async () => {
+            const { state, source, run } = tracked(10);
+            const iterator = source.mapConcurrent(x => run(x === 0 ? 20 : 1, x), { concurrency: 2 });
+            const first = iterator[Symbol.asyncIterator]().next();
+            await delay(10);
+            expect(state.pulled).to.equal(2);
+            expect((await first).value).to.equal(0);
+        });
+
+        it('.mapConcurrent should fail fast and stop pulling from the source', async () => {
+            const { state, source } = tracked(100);
+            await expectRejection(
+                source
+                    .mapConcurrent(
+                        async x => {
+                            if (x === 2) {
+                                throw new RangeError('failed');
+                            }
+
+                            await delay(5);
+                            return x;
+                        },
+                        { concurrency: 2 }
+                    )
+                    .items(),
+                RangeError
+            );
+
+            expect(state.closed).to.be.true;
+            expect(state.pulled).to.be.lessThan(6);
+        });
+
+        it('.mapConcurrent should collect errors', async () => {
+            const failing = (x: number) => {
+                if (x % 2) {
+                    throw new Error(`odd ${x}`);
+                }
+
+                return x;
+            };
+
+            for (const ordered of [true, false]) {
+                const results: number[] = [];
+                try {
+                    for await (const item of new AsyncIterable([1, 2, 3, 4]).mapConcurrent(failing, {
+                        concurrency: 2,
+                        ordered,
+                        errorMode: 'collect'
+                    })) {
+                        results.push(item);
+                    }
+
+                    expect.fail('Expected a CompositeError');
+                } catch (e) {
+                    expect(e).to.be.instanceOf(CompositeError);
+                    expect(e.errors.map((x: Error) => x.message)).to.eql(['odd 1', 'odd 3']);
+                }
+
+                expect(results).to.eql([2, 4]);
+            }
+        });
+
+        it('.mapConcurrent should stop pulling when the consumer stops early', async () => {
+            const { state, source, run } = tracked(100);
+            expect(await source.mapConcurrent(x => run(1, x), { concurrency: 4 }).first()).to.equal(0);
+            expect(state.closed).to.be.true;
+            expect(state.pulled).to.equal(4);
+        });
+
+        it('.forEachConcurrent should invoke the action for each element', async () => {
+            const { state, source, run } = tracked(6);
+            const seen: number[] = [];
+            await source.forEachConcurrent(
+                async x => {
+                    seen.push(await run(6 - x, x));
+                },
+                { concurrency: 2 }
+            );
+            expect(seen.sort()).to.eql([0, 1, 2, 3, 4, 5]);
+            expect(state.peak).to.equal(2);
+        });
+
+        it('.forEachConcurrent should reject on errors', async () => {
+            await expectRejection(new AsyncIterable([1]).forEachConcurrent(null, { concurrency: 1 }), ArgumentNullError);
+            await expectRejection(
+                new AsyncIterable([1, 2]).forEachConcurrent(
+                    () => {
+                        throw new Error('failed');
+                    },
+                    { concurrency: 1, errorMode: 'collect' }
+                ),
+                CompositeError
+            );
+        });
+    });
+
+    describe('time', () => {
+        let scheduler: VirtualScheduler;
+
+        // Yields each value at the given virtual time, then completes.
+        function timed<T>(...events: [number, T][]): AsyncIterable<T> {
+            return new AsyncIterable(async function* () {
+                for (const [time, value] of events) {
+                    await new Promise(resolve => scheduler.schedule(resolve, time - scheduler.now()));
+                    yield value;
+                }
+            });
+        }
+
+        async function collect<T>(iterable: AsyncIterable<T>, until: number): Promise<[T, number][]> {
+            const result = iterable.map(x => [x, scheduler.now()] as [T, number]).items();
+            await scheduler.advanceTo(until);
+            return result;
+        }
+
+        const events: [number, string][] = [[0, 'a'], [5, 'b'], [20, 'c'], [22, 'd'], [50, 'e']];
+
+        beforeEach(() => {
+            scheduler = new VirtualScheduler();
+        });
+
+        afterEach(() => {
+            expect(scheduler.pending).to.equal(0);
+        });
+
+        it('should validate durations', () => {
+            const iterable = new AsyncIterable([1]);
+            expect(() => iterable.debounce(-1)).to.throw(ArgumentOutOfRangeError);
+            expect(() => iterable.throttle(NaN)).to.throw(ArgumentOutOfRangeError);
+            expect(() => iterable.delay(undefined)).to.throw(ArgumentOutOfRangeError);
+            expect(() => iterable.timeout(-5)).to.throw(ArgumentOutOfRangeError);
+            expect(() => iterable.sample('1' as any)).to.throw(ArgumentOutOfRangeError);
+            expect(() => iterable.bufferTime(-1)).to.throw(ArgumentOutOfRangeError);
+            expect(() => iterable.bufferTime(10, 0)).to.throw(ArgumentOutOfRangeError);
+        });
+
+        it('.debounce should yield elements followed by quiet time', async () => {
+            expect(await collect(timed(...events).debounce(10, scheduler), 100)).to.eql([
+                ['b', 15],
+                ['d', 32],
+                ['e', 50]
+            ]);
+        });
+
+        it('.debounce should complete with empty sources', async () => {
+            expect(await collect(timed().debounce(10, scheduler), 100)).to.eql([]);
+        });
+
+        it('.debounce should ignore errors of closing the source early', async () => {
+            const source = new AsyncIterable(async function* () {
+                try {
+                    yield* timed([0, 'a'], [20, 'b']);
+                } finally {
+                    throw new Error('close failed');
+                }
+            });
+
+            const first = source.debounce(10, scheduler).first();
+            await scheduler.advanceTo(100);
+            expect(await first).to.equal('a');
+        });
+
+        it('.debounce should stop the timer when the consumer stops early', async () => {
+            const first = timed(...events).debounce(10, scheduler).first();
+            await scheduler.advanceTo(15);
+            expect(await first).to.equal('b');
+            await scheduler.advanceTo(100);
+        });
+
+        it('.debounce should reject when the source fails', async () => {
+            const failing = new AsyncIterable(async function* () {
+                yield 1;
+                throw new Error('failed');
+            });
+
+            await expectRejection(failing.debounce(10, scheduler).items(), Error);
+        });
+
+        it('.throttle should ignore elements shortly after a yielded one', async () => {
+            expect(await collect(timed(...events).throttle(10, scheduler), 100)).to.eql([
+                ['a', 0],
+                ['c', 20],
+                ['e', 50]
+            ]);
+        });
+
+        it('.delay should delay each element', async () => {
+            expect(await collect(timed([0, 'a'], [0, 'b']).delay(10, scheduler), 100)).to.eql([
+                ['a', 10],
+                ['b', 20]
+            ]);
+        });
+
+        it('.bufferTime should yield the elements of each time span', async () => {
+            const buffered = timed<number>([0, 1], [2, 2], [4, 3], [5, 4], [20, 5]).bufferTime(10, 3, scheduler);
+            expect(await collect(buffered, 100)).to.eql([
+                [[1, 2, 3], 4],
+                [[4], 15],
+                [[5], 20]
+            ]);
+        });
+
+        it('.bufferTime should not yield empty arrays', async () => {
+            expect(await collect(timed().bufferTime(10, undefined, scheduler), 100)).to.eql([]);
+        });
+
+        it('.bufferTime should stop the timer when the consumer stops early', async () => {
+            const first = timed([0, 'a'], [30, 'b']).bufferTime(10, Infinity, scheduler).first();
+            await scheduler.advanceTo(100);
+            expect(await first).to.eql(['a']);
+        });
+
+        it('.sample should yield the latest element at each interval', async () => {
+            expect(await collect(timed(...events, [55, 'f']).sample(10, scheduler), 100)).to.eql([
+                ['b', 10],
+                ['c', 20],
+                ['d', 30],
+                ['e', 50]
+            ]);
+        });
+
+        it('.sample should stop sampling when the consumer stops early', async () => {
+            const first = timed(...events).sample(10, scheduler).first();
+            await scheduler.advanceTo(100);
+            expect(await first).to.equal('b');
+        });
+
+        it('.timeout should reject when the source is too slow', async () => {
+            const received: string[] = [];
+            const consumed = (async () => {
+                for await (const item of timed([0, 'a'], [5, 'b'], [30, 'c']).timeout(10, scheduler)) {
+                    received.push(item);
+                }
+            })().catch(e => e);
+
+            await scheduler.advanceTo(100);
+            const error = await consumed;
+            expect(error).to.be.instanceOf(TimeoutError);
+            expect(error.message).to.equal('Operation timed out after 10ms');
+            expect(received).to.eql(['a', 'b']);
+        });
+
+        it('.timeout should complete with fast sources', async () => {
+            expect(await collect(timed([5, 'a'], [10, 'b']).timeout(10, scheduler), 100)).to.eql([
+                ['a', 5],
+                ['b', 10]
+            ]);
+        });
+    });
+
+    describe('cancellation', () => {
+        function gated() {
+            const state = { started: false, closed: false, release: null as () => void };
+            const gate = new Promise<void>(resolve => (state.release = resolve));
+            const source = new AsyncIterable(async function* () {
+                state.started = true;
+                try {
+                    yield 1;
+                    await gate;
+                    yield 2;
+                } finally {
+                    state.closed = true;
+                }
+            });
+
+            return { state, source };
+        }
+
+        it('terminal operations should reject when the signal was already aborted', async () => {
+            const { state, source } = gated();
+            const controller = new AbortController();
+            controller.abort();
+            await expectRejection(source.items(controller.signal), AbortError);
+            await expectRejection(source.count(controller.signal), AbortError);
+            await expectRejection(source.first(null, controller.signal), AbortError);
+            expect(state.started).to.equal(false);
+        });
+
+        it('aborting should reject a pending operation and close the source', async () => {
+            const { state, source } = gated();
+            const controller = new AbortController();
+            const result = source.items(controller.signal);
+            await delay(1);
+            expect(state.started).to.equal(true);
+            controller.abort();
+            await expectRejection(result, AbortError);
+
+            // The source finishes its pending step before it can be closed.
+            expect(state.closed).to.equal(false);
+            state.release();
+            await delay(1);
+            expect(state.closed).to.equal(true);
+        });
+
+        it('terminal operations should complete when the signal is not aborted', async () => {
+            const numbers = new AsyncIterable([1, 2, 3, 4]);
+            const { signal } = new AbortController();
+            expect(await numbers.count(signal)).to.equal(4);
+            expect(await numbers.items(signal)).to.eql([1, 2, 3, 4]);
+            expect(await numbers.first(x => x > 2, signal)).to.equal(3);
+            expect(await numbers.first(null, signal)).to.equal(1);
+            expect(await numbers.first(x => x > 4, signal)).to.equal(null);
+            expect(await numbers.some(x => x > 3, signal)).to.equal(true);
+            expect(await numbers.every(x => x > 1, signal)).to.equal(false);
+        });
+
+        it('aborting forEachConcurrent should reject it and close the source', async () => {
+            const { state, source } = gated();
+            const controller = new AbortController();
+            const handled: number[] = [];
+            const result = source.forEachConcurrent(x => void handled.push(x), { concurrency: 2 }, controller.signal);
+            await delay(1);
+            controller.abort();
+            await expectRejection(result, AbortError);
+            state.release();
+            await delay(1);
+            expect(handled).to.eql([1]);
+            expect(state.closed).to.equal(true);
+        });
+
+        it('.finally should invoke an action when an enumeration ends', async () => {
+            const log: string[] = [];
+            const numbers = new AsyncIterable([1, 2, 3]).finally(async () => {
+                await delay(1);
+                log.push('finally');
+            });
+
+            expect(await numbers.items()).to.eql([1, 2, 3]);
+            expect(await numbers.first()).to.equal(1);
+            const failing = numbers.map(() => {
+                throw new Error('failed');
+            });
+            await expectRejection(failing.items(), Error);
+            expect(log).to.eql(['finally', 'finally', 'finally']);
+            expect(() => numbers.finally(null)).to.throw(ArgumentNullError);
+        });
+
+        it('.finally should invoke an action when an enumeration is aborted', async () => {
+            const { state, source } = gated();
+            let calls = 0;
+            const controller = new AbortController();
+            const result = source.finally(() => void calls++).items(controller.signal);
+            await delay(1);
+            controller.abort();
+            await expectRejection(result, AbortError);
+            state.release();
+            await delay(1);
+            expect(calls).to.equal(1);
+        });
+
+        it('.using should dispose the resource of each enumeration', async () => {
+            const log: string[] = [];
+            const lines = AsyncIterable.using(
+                async () => {
+                    log.push('open');
+                    return { lines: ['a', 'b'], dispose: async () => { log.push('dispose'); } };
+                },
+                file => file.lines
+            );
+
+            expect(log).to.eql([]);
+            expect(await lines.items()).to.eql(['a', 'b']);
+            expect(await lines.first()).to.equal('a');
+            expect(log).to.eql(['open', 'dispose', 'open', 'dispose']);
+        });
+
+        it('.using should prefer Symbol.asyncDispose and dispose when aborted', async () => {
+            const { state, source } = gated();
+            const log: string[] = [];
+            const resource = {
+                [(Symbol as any).asyncDispose]: async () => { log.push('async'); },
+                dispose: () => { log.push('method'); }
+            };
+
+            const controller = new AbortController();
+            const result = AsyncIterable.using(() => resource, () => source).items(controller.signal);
+            await delay(1);
+            controller.abort();
+            await expectRejection(result, AbortError);
+            state.release();
+            await delay(1);
+            expect(log).to.eql(['async']);
+        });
+
+        it('.using should validate its arguments and resources', async () => {
+            expect(await AsyncIterable.using(() => null, () => [1]).items()).to.eql([1]);
+            await expectRejection(AsyncIterable.using(() => ({}), () => [1]).items(), TypeError);
+            expect(() => AsyncIterable.using(null, () => [1])).to.throw(ArgumentNullError);
+            expect(() => AsyncIterable.using(() => null, null)).to.throw(ArgumentNullError);
+        });
+
+        it('stopping a concatenation should close its second source', async () => {
+            let closed = false;
+            const second = new AsyncIterable(async function* () {
+                try {
+                    yield* [3, 4];
+                } finally {
+                    closed = true;
+                }
+            });
+
+            expect(await new AsyncIterable([1, 2]).concat(second).first(x => x > 2)).to.equal(3);
+            expect(closed).to.equal(true);
+        });
+    });
+
+    describe('toAsync', () => {
+        it('should bridge sync iterables into async pipelines', async () => {
+            const items = await new Iterable([1, 2, 3, 4])
+                .filter(x => x % 2 === 0)
+                .toAsync()
+                .map(async x => x * 10)
+                .items();
+
+            expect(items).to.eql([20, 40]);
+        });
+    });
+});
@@ -0,0 +1,170 @@
+import 'mocha';
+import { expect } from 'chai';
+import {
+    caseInsensitiveEqualityComparer,
+    defaultEqualityComparer,
+    HashMap,
+    HashSet,
+    structuralEqualityComparer,
+    tupleEqualityComparer
+} from '../src';
+
+describe('Equality comparers', () => {
+    describe('defaultEqualityComparer', () => {
+        it('should use SameValueZero equality', () => {
+            const obj = {};
+            expect(defaultEqualityComparer.equals(NaN, NaN)).to.be.true;
+            expect(defaultEqualityComparer.equals(0, -0)).to.be.true;
+            expect(defaultEqualityComparer.equals(obj, obj)).to.be.true;
+            expect(defaultEqualityComparer.equals({}, {})).to.be.false;
+            expect(defaultEqualityComparer.equals(1, '1')).to.be.false;
+        });
+
+        it('should hash equal values equally', () => {
+            const obj = {};
+            expect(defaultEqualityComparer.hash(obj)).to.equal(defaultEqualityComparer.hash(obj));
+            expect(defaultEqualityComparer.hash('a')).to.equal(defaultEqualityComparer.hash('a'));
+            expect(defaultEqualityComparer.hash(null)).to.equal(defaultEqualityComparer.hash(undefined));
+        });
+    });
+
+    describe('structuralEqualityComparer', () => {
+        const { equals, hash } = structuralEqualityComparer;
+
+        it('should compare objects and arrays by content', () => {
+            expect(equals({ a: 1, b: [1, { c: 2 }] }, { b: [1, { c: 2 }], a: 1 })).to.be.true;
+            expect(equals({ a: 1 }, { a: 2 })).to.be.false;
+            expect(equals({ a: 1 }, { a: 1, b: 2 })).to.be.false;
+            expect(equals({ a: 1, b: undefined }, { a: 1, c: undefined })).to.be.false;
+            expect(equals([1, 2], [1, 2, 3])).to.be.false;
+            expect(equals([1], { 0: 1 })).to.be.false;
+            expect(equals(null, {})).to.be.false;
+            expect(equals(1, 2)).to.be.false;
+        });
+
+        it('should compare dates, regular expressions, maps and sets by content', () => {
+            expect(equals(new Date(0), new Date(0))).to.be.true;
+            expect(equals(new Date(0), new Date(1))).to.be.false;
+            expect(equals(/a/g, /a/g)).to.be.true;
+            expect(equals(/a/g, /a/i)).to.be.false;
+            expect(equals(new Map([[{ a: 1 }, 'x']]), new Map([[{ a: 1 }, 'x']]))).to.be.true;
+            expect(equals(new Map([['a', 1]]), new Map([['a', 2]]))).to.be.false;
+            expect(equals(new Set([1, [2]]), new Set([[2], 1]))).to.be.true;
+            expect(equals(new Set([1]), new Set([2]))).to.be.false;
+        });
+
+        it('should hash structurally equal values equally', () => {
+            const values = [
+                [{ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 }],
+                [new Date(5), new Date(5)],
+                [/x/, /x/],
+                [new Map([['a', 1], ['b', 2]]), new Map([['b', 2], ['a', 1]])],
+                [new Set([1, 2]), new Set([2, 1])]
+            ];
+
+            for (const [a, b] of values) {
+                expect(hash(a)).to.equal(hash(b));
+            }
+        });
+    });
+
+    describe('caseInsensitiveEqualityComparer', () => {
+        it('should compare strings ignoring case', () => {
+            const { equals, hash } = caseInsensitiveEqualityComparer;
+            expect(equals('Alpha', 'aLPHA')).to.be.true;
+            expect(equals('alpha', 'beta')).to.be.false;
+            expect(equals(null, null)).to.be.true;
+            expect(equals(null, 'a')).to.be.false;
+            expect(hash('Alpha')).to.equal(hash('ALPHA'));
+            expect(hash(null)).to.equal(0);
+        });
+    });
+
+    describe('tupleEqualityComparer', () => {
+        it('should compare tuples element-wise', () => {
+            const { equals, hash } = tupleEqualityComparer<[string, number]>(caseInsensitiveEqualityComparer);
+            expect(equals(['Tenant', 1], ['tenant', 1])).to.be.true;
+            expect(equals(['tenant', 1], ['tenant', 2])).to.be.false;
+            expect(equals(['tenant', 1], ['tenant', 1, 2] as any)).to.be.false;
+            expect(equals(null, ['tenant', 1])).to.be.false;
+            expect(hash(['Tenant', 1])).to.equal(hash(['TENANT', 1]));
+            expect(hash(null)).to.equal(0);
+        });
+    });
+
+    describe('HashMap', () => {
+        let map: HashMap<[string, number], string>;
+
+        beforeEach(() => {
+            map = new HashMap(tupleEqualityComparer());
+            map.set(['a', 1], 'first').set(['b', 2], 'second');
+        });
+
+        it('should look up keys using the comparer', () => {
+            expect(map.size).to.equal(2);
+            expect(map.get(['a', 1])).to.equal('first');
+            expect(map.has(['b', 2])).to.be.true;
+            expect(map.has(['b', 3])).to.be.false;
+            expect(map.get(['c', 3])).to.be.undefined;
+        });
+
+        it('should overwrite values of equal keys', () => {
+            map.set(['a', 1], 'updated');
+            expect(map.size).to.equal(2);
+            expect(map.get(['a', 1])).to.equal('updated');
+        });
+
+        it('should iterate in insertion order', () => {
+            map.set(['c', 3], 'third');
+            expect([...map.keys()]).to.eql([['a', 1], ['b', 2], ['c', 3]]);
+            expect([...map.values()]).to.eql(['first', 'second', 'third']);
+            expect([...map].map(([, value]) => value)).to.eql(['first', 'second', 'third']);
+
+            const visited: string[] = [];
+            map.forEach((value, key, source) => {
+                expect(source).to.equal(map);
+                visited.push(`${key[0]}=${value}`);
+            });
+            expect(visited).to.eql(['a=first', 'b=second', 'c=third']);
+        });
+
+        it('should delete and clear entries', () => {
+            const colliding = new HashMap<string, number>({ equals: (a, b) => a === b, hash: () => 1 });
+            colliding.set('a', 1).set('b', 2);
+            expect(colliding.delete('a')).to.be.true;
+            expect(colliding.delete('a')).to.be.false;
+            expect(colliding.get('b')).to.equal(2);
+            expect(colliding.delete('b')).to.be.true;
+            expect(colliding.size).to.equal(0);
+
+            map.clear();
+            expect(map.size).to.equal(0);
+            expect(map.has(['a', 1])).to.be.false;
+            expect(Object.prototype.toString.call(map)).to.equal('[object HashMap]');
+        });
+    });
+
+    describe('HashSet', () => {
+        it('should store values distinct by the comparer', () => {
+            const set = new HashSet(structuralEqualityComparer, [{ a: 1 }, { a: 1 }, { a: 2 }]);
+            expect(set.size).to.equal(2);
+            expect(set.has({ a: 2 })).to.be.true;
+            expect([...set]).to.eql([{ a: 1 }, { a: 2 }]);
+            expect([...set.values()]).to.eql([...set.keys()]);
+            expect([...set.entries()][0]).to.eql([{ a: 1 }, { a: 1 }]);
+            expect(set.delete({ a: 1 })).to.be.true;
+
+            const visited: any[] = [];
+            set.forEach((value, value2, source) => {
+                expect(value).to.equal(value2);
+                expect(source).to.equal(set);
+                visited.push(value);
+            });
+            expect(visited).to.eql([{ a: 2 }]);
+
+            set.clear();
+            expect(set.size).to.equal(0);
+            expect(new HashSet(structuralEqualityComparer).size).to.equal(0);
+        });
+    });
+});
@@ -1,6 +1,33 @@
 import 'mocha';
 import { expect } from 'chai';
-import Iterable from '../src';
+import Iterable, {
+    ArgumentNullError,
+    ArgumentOutOfRangeError,
+    caseInsensitiveEqualityComparer,
+    DuplicateKeyError,
+    filter,
+    IterableSpecies,
+    localeComparer,
+    map,
+    MoreThanOneElementError,
+    pipe,
+    SequenceEmptyError,
+    structuralEqualityComparer,
+    tupleEqualityComparer
+} from '../src';
+
+declare module '../src' {
+    interface Iterable<T> {
+        everyOther(): Iterable<T>;
+        sumBy(selector: (item: T) => number): number;
+    }
+}
+
+class NumberIterable<T> extends Iterable<T> {
+    total(this: NumberIterable<number>): number {
+        return this.sum();
+    }
+}
 
 describe('Iterable', () => {
     it('.items should throw when source is not iterable', () => {
@@ -463,6 +490,1900 @@ describe('Iterable', () => {
         });
     });
 
+    describe('groupBy', () => {
+        const people = [
+            { name: 'alpha', team: 'red' },
+            { name: 'bravo', team: 'blue' },
+            { name: 'charlie', team: 'red' },
+            { name: 'delta', team: 'green' },
+            { name: 'echo', team: 'blue' }
+        ];
+
+        it('should throw when keySelector is null or undefined', () => {
+            const iterable = new Iterable(people);
+            expect(() => iterable.groupBy(null)).to.throw(ReferenceError);
+            expect(() => iterable.groupBy(undefined)).to.throw(ReferenceError);
+        });
+
+        it('should group elements preserving first-seen key order', () => {
+            const groups = new Iterable(people).groupBy(x => x.team).items();
+            expect(groups.map(x => x.key)).to.eql(['red', 'blue', 'green']);
+            expect(groups[0].map(x => x.name).items()).to.eql(['alpha', 'charlie']);
+            expect(groups[1].count()).to.equal(2);
+        });
+
+        it('should apply element selector', () => {
+            const groups = new Iterable(people).groupBy(x => x.team, (x, i) => `${x.name}${i}`).items();
+            expect(groups[1].items()).to.eql(['bravo1', 'echo4']);
+        });
+
+        it('should apply result selector', () => {
+            const counts = new Iterable(people)
+                .groupBy(
+                    x => x.team,
+                    x => x.name,
+                    (key, names) => `${key}:${names.count()}`
+                )
+                .items();
+
+            expect(counts).to.eql(['red:2', 'blue:2', 'green:1']);
+        });
+
+        it('should be lazy', () => {
+            let pulled = 0;
+            const groups = new Iterable(people).map(x => (++pulled, x)).groupBy(x => x.team);
+            expect(pulled).to.equal(0);
+            expect(groups.count()).to.equal(3);
+            expect(pulled).to.equal(5);
+        });
+
+        it('should be invocable multiple times', () => {
+            const groups = new Iterable(people).groupBy(x => x.team);
+            expect(groups.count()).to.equal(3);
+            expect(groups.count()).to.equal(3);
+        });
+    });
+
+    describe('toLookup', () => {
+        const words = new Iterable(['apple', 'avocado', 'banana', 'blueberry', 'cherry']);
+
+        it('should throw when keySelector is null or undefined', () => {
+            expect(() => words.toLookup(null)).to.throw(ReferenceError);
+            expect(() => words.toLookup(undefined)).to.throw(ReferenceError);
+        });
+
+        it('should support repeated key lookups', () => {
+            const lookup = words.toLookup(x => x[0]);
+            expect(lookup.size).to.equal(3);
+            expect(lookup.has('a')).to.be.true;
+            expect(lookup.get('a').items()).to.eql(['apple', 'avocado']);
+            expect(lookup.get('a').items()).to.eql(['apple', 'avocado']);
+            expect(lookup.get('c').items()).to.eql(['cherry']);
+        });
+
+        it('should return empty iterable for missing keys', () => {
+            const lookup = words.toLookup(x => x[0]);
+            expect(lookup.has('z')).to.be.false;
+            expect(lookup.get('z').count()).to.equal(0);
+        });
+
+        it('should iterate groupings in first-seen key order', () => {
+            const lookup = words.toLookup(x => x.length, x => x.toUpperCase());
+            expect(lookup.map(x => x.key).items()).to.eql([5, 7, 6, 9]);
+            expect(lookup.first().items()).to.eql(['APPLE']);
+        });
+    });
+
+    describe('joins', () => {
+        const customers = [
+            { id: 1, name: 'alpha' },
+            { id: 2, name: 'bravo' },
+            { id: 3, name: 'charlie' }
+        ];
+        const orders = [
+            { customerId: 1, total: 10 },
+            { customerId: 3, total: 30 },
+            { customerId: 1, total: 15 },
+            { customerId: 4, total: 40 }
+        ];
+
+        let iterable: Iterable<{ id: number; name: string }>;
+
+        beforeEach(() => {
+            iterable = new Iterable(customers);
+        });
+
+        it('should throw when selectors are null or undefined', () => {
+            const key = (x: any) => x;
+            const result = (x: any, y: any) => [x, y];
+            expect(() => iterable.join(orders, null, key, result)).to.throw(ReferenceError);
+            expect(() => iterable.leftJoin(orders, key, undefined, result)).to.throw(ReferenceError);
+            expect(() => iterable.fullOuterJoin(orders, key, key, null)).to.throw(ReferenceError);
+        });
+
+        it('.join should yield matching pairs', () => {
+            const items = iterable
+                .join(orders, x => x.id, x => x.customerId, (c, o) => `${c.name}:${o.total}`)
+                .items();
+
+            expect(items).to.eql(['alpha:10', 'alpha:15', 'charlie:30']);
+        });
+
+        it('.join should be invocable multiple times', () => {
+            const joined = iterable.join(
+                new Iterable(function* () {
+                    yield* orders;
+                }),
+                x => x.id,
+                x => x.customerId,
+                (c, o) => o.total
+            );
+
+            expect(joined.count()).to.equal(3);
+            expect(joined.count()).to.equal(3);
+        });
+
+        it('.groupJoin should yield every outer element with its matches', () => {
+            const items = iterable
+                .groupJoin(orders, x => x.id, x => x.customerId, (c, o) => [c.name, o.map(x => x.total).items()])
+                .items();
+
+            expect(items).to.eql([
+                ['alpha', [10, 15]],
+                ['bravo', []],
+                ['charlie', [30]]
+            ]);
+        });
+
+        it('.leftJoin should pair unmatched outer elements with null', () => {
+            const items = iterable
+                .leftJoin(orders, x => x.id, x => x.customerId, (c, o) => [c.name, o && o.total])
+                .items();
+
+            expect(items).to.eql([
+                ['alpha', 10],
+                ['alpha', 15],
+                ['bravo', null],
+                ['charlie', 30]
+            ]);
+        });
+
+        it('.rightJoin should pair unmatched inner elements with null', () => {
+            const items = iterable
+                .rightJoin(orders, x => x.id, x => x.customerId, (c, o) => [c && c.name, o.total])
+                .items();
+
+            expect(items).to.eql([
+                ['alpha', 10],
+                ['charlie', 30],
+                ['alpha', 15],
+                [null, 40]
+            ]);
+        });
+
+        it('.fullOuterJoin should include unmatched elements from both sides', () => {
+            const items = iterable
+                .fullOuterJoin(
+                    orders,
+                    x => x.id,
+                    x => x.customerId,
+                    (c, o) => [c && c.name, o && o.total]
+                )
+                .items();
+
+            expect(items).to.eql([
+                ['alpha', 10],
+                ['alpha', 15],
+                ['bravo', null],
+                ['charlie', 30],
+                [null, 40]
+            ]);
+        });
+    });
+
+    describe('orderBy', () => {
+        const people = [
+            { name: 'charlie', age: 30 },
+            { name: 'alpha', age: 25 },
+            { name: 'echo', age: 30 },
+            { name: 'bravo', age: 25 },
+            { name: 'delta', age: 40 }
+        ];
+
+        it('should throw when keySelector is null or undefined', () => {
+            const iterable = new Iterable(people);
+            expect(() => iterable.orderBy(null)).to.throw(ReferenceError);
+            expect(() => iterable.orderByDescending(undefined)).to.throw(ReferenceError);
+            expect(() => iterable.orderBy(x => x.age).thenBy(null)).to.throw(ReferenceError);
+        });
+
+        it('.orderBy should sort ascending', () => {
+            const names = new Iterable(people)
+                .orderBy(x => x.name)
+                .map(x => x.name)
+                .items();
+
+            expect(names).to.eql(['alpha', 'bravo', 'charlie', 'delta', 'echo']);
+        });
+
+        it('.orderByDescending should sort descending and be stable', () => {
+            const names = new Iterable(people)
+                .orderByDescending(x => x.age)
+                .map(x => x.name)
+                .items();
+
+            expect(names).to.eql(['delta', 'charlie', 'echo', 'alpha', 'bravo']);
+        });
+
+        it('.thenBy should sort by secondary keys', () => {
+            const names = new Iterable(people)
+                .orderBy(x => x.age)
+                .thenByDescending(x => x.name)
+                .map(x => x.name)
+                .items();
+
+            expect(names).to.eql(['bravo', 'alpha', 'echo', 'charlie', 'delta']);
+
+            const ascending = new Iterable(people)
+                .orderByDescending(x => x.age)
+                .thenBy(x => x.name)
+                .map(x => x.name)
+                .items();
+
+            expect(ascending).to.eql(['delta', 'charlie', 'echo', 'alpha', 'bravo']);
+        });
+
+        it('should be stable for equal keys', () => {
+            const items = new Iterable([...Array(100).keys()])
+                .orderBy(x => x % 2)
+                .items();
+
+            expect(items.slice(0, 3)).to.eql([0, 2, 4]);
+            expect(items.slice(50, 53)).to.eql([1, 3, 5]);
+        });
+
+        it('should support custom comparers', () => {
+            const items = new Iterable(['b', 'a', 'C', 'B', 'c', 'A'])
+                .orderBy(x => x, localeComparer('en', { sensitivity: 'base' }))
+                .items();
+
+            expect(items).to.eql(['a', 'A', 'b', 'B', 'C', 'c']);
+        });
+
+        it('should defer sorting until enumerated', () => {
+            const source = [3, 1, 2];
+            const ordered = new Iterable(source).orderBy(x => x);
+            source.push(0);
+            expect(ordered.items()).to.eql([0, 1, 2, 3]);
+            expect(source).to.eql([3, 1, 2, 0]);
+        });
+    });
+
+    describe('set operations', () => {
+        const left = new Iterable(['a', 'b', 'c', 'b', 'd']);
+        const right = ['c', 'd', 'e', 'e', 'f'];
+
+        it('should throw when other is null or undefined', () => {
+            expect(() => left.union(null)).to.throw(ReferenceError);
+            expect(() => left.intersect(undefined)).to.throw(ReferenceError);
+            expect(() => left.except(null)).to.throw(ReferenceError);
+            expect(() => left.symmetricDifference(undefined)).to.throw(ReferenceError);
+            expect(() => left.exceptBy(null, x => x)).to.throw(ReferenceError);
+        });
+
+        it('should throw when keySelector is null', () => {
+            expect(() => left.unionBy(right, null)).to.throw(ReferenceError);
+            expect(() => left.intersectBy(right, null)).to.throw(ReferenceError);
+            expect(() => left.symmetricDifference(right, null)).to.throw(ReferenceError);
+        });
+
+        it('.union should return distinct elements from both sources in order', () => {
+            expect(left.union(right).items()).to.eql(['a', 'b', 'c', 'd', 'e', 'f']);
+        });
+
+        it('.union should be lazy', () => {
+            const items = new Iterable(function* () {
+                yield 1;
+                throw new Error('should not be reached');
+            })
+                .union([2])
+                .first();
+
+            expect(items).to.equal(1);
+        });
+
+        it('.intersect should return distinct elements found in both sources', () => {
+            expect(left.intersect(right).items()).to.eql(['c', 'd']);
+        });
+
+        it('.except should return distinct elements not found in other', () => {
+            expect(left.except(right).items()).to.eql(['a', 'b']);
+        });
+
+        it('.symmetricDifference should return elements found in only one source', () => {
+            expect(left.symmetricDifference(right).items()).to.eql(['a', 'b', 'e', 'f']);
+        });
+
+        it('should support key selectors', () => {
+            const words = new Iterable(['Apple', 'banana', 'Cherry']);
+            const others = ['apple', 'cherry', 'date'];
+            const key = (x: string) => x.toLowerCase();
+
+            expect(words.union(others, key).items()).to.eql(['Apple', 'banana', 'Cherry', 'date']);
+            expect(words.intersect(others, key).items()).to.eql(['Apple', 'Cherry']);
+            expect(words.except(others, key).items()).to.eql(['banana']);
+            expect(words.symmetricDifference(others, key).items()).to.eql(['banana', 'date']);
+        });
+
+        it('.exceptBy and .intersectBy should compare against key collections', () => {
+            const people = new Iterable([
+                { id: 1, name: 'alpha' },
+                { id: 2, name: 'bravo' },
+                { id: 3, name: 'charlie' }
+            ]);
+
+            expect(people.exceptBy([2], x => x.id).map(x => x.name).items()).to.eql(['alpha', 'charlie']);
+            expect(people.intersectBy(new Set([2, 3]), x => x.id).map(x => x.name).items()).to.eql([
+                'bravo',
+                'charlie'
+            ]);
+        });
+
+        it('should be invocable multiple times', () => {
+            const result = left.except(new Iterable(() => right));
+            expect(result.count()).to.equal(2);
+            expect(result.count()).to.equal(2);
+        });
+    });
+
+    describe('windowing', () => {
+        const numbers = new Iterable([1, 2, 3, 4, 5]);
+
+        it('should throw when size or step are invalid', () => {
+            expect(() => numbers.chunk(0)).to.throw(RangeError);
+            expect(() => numbers.chunk(1.5)).to.throw(RangeError);
+            expect(() => numbers.window(2, 0)).to.throw(RangeError);
+            expect(() => numbers.window(undefined)).to.throw(RangeError);
+        });
+
+        it('should throw when predicate is null or undefined', () => {
+            expect(() => numbers.splitWhen(null)).to.throw(ReferenceError);
+            expect(() => numbers.partition(undefined)).to.throw(ReferenceError);
+        });
+
+        it('.chunk should keep trailing partial chunk by default', () => {
+            expect(numbers.chunk(2).items()).to.eql([[1, 2], [3, 4], [5]]);
+        });
+
+        it('.chunk should drop or pad trailing partial chunk', () => {
+            expect(numbers.chunk(2, { partial: 'drop' }).items()).to.eql([
+                [1, 2],
+                [3, 4]
+            ]);
+            expect(numbers.chunk(3, { partial: 'pad', padding: 0 }).items()).to.eql([
+                [1, 2, 3],
+                [4, 5, 0]
+            ]);
+        });
+
+        it('.chunk should work with infinite sources', () => {
+            const naturals = new Iterable(function* () {
+                let i = 0;
+                while (true) {
+                    yield i++;
+                }
+            });
+
+            expect(naturals.chunk(3).first()).to.eql([0, 1, 2]);
+        });
+
+        it('.window should return sliding windows', () => {
+            expect(numbers.window(3).items()).to.eql([
+                [1, 2, 3],
+                [2, 3, 4],
+                [3, 4, 5]
+            ]);
+        });
+
+        it('.window should support steps', () => {
+            expect(numbers.window(2, 2).items()).to.eql([
+                [1, 2],
+                [3, 4]
+            ]);
+            expect(numbers.window(1, 3).items()).to.eql([[1], [4]]);
+            expect(numbers.window(2, 3, { partial: 'keep' }).items()).to.eql([
+                [1, 2],
+                [4, 5]
+            ]);
+        });
+
+        it('.window should keep or pad trailing partial windows', () => {
+            expect(numbers.window(4, 2, { partial: 'keep' }).items()).to.eql([
+                [1, 2, 3, 4],
+                [3, 4, 5],
+                [5]
+            ]);
+            expect(numbers.window(4, 2, { partial: 'pad', padding: null }).items()).to.eql([
+                [1, 2, 3, 4],
+                [3, 4, 5, null],
+                [5, null, null, null]
+            ]);
+        });
+
+        it('.window should return no windows when source is smaller than size', () => {
+            expect(numbers.window(6).count()).to.equal(0);
+        });
+
+        it('.pairwise should pair consecutive elements', () => {
+            expect(numbers.pairwise().items()).to.eql([
+                [1, 2],
+                [2, 3],
+                [3, 4],
+                [4, 5]
+            ]);
+            expect(new Iterable([1]).pairwise().count()).to.equal(0);
+        });
+
+        it('.splitWhen should start new arrays at matching elements', () => {
+            const lines = new Iterable(['# a', '1', '2', '# b', '3', '# c']);
+            expect(lines.splitWhen(x => x.startsWith('#')).items()).to.eql([
+                ['# a', '1', '2'],
+                ['# b', '3'],
+                ['# c']
+            ]);
+            expect(Iterable.empty().splitWhen(() => true).count()).to.equal(0);
+        });
+
+        it('.partition should split matching elements from the rest', () => {
+            const [even, odd] = numbers.partition(x => x % 2 === 0);
+            expect(even.items()).to.eql([2, 4]);
+            expect(odd.items()).to.eql([1, 3, 5]);
+        });
+    });
+
+    describe('aggregation', () => {
+        const numbers = new Iterable([4, 8, 15, 16, 23, 42]);
+        const people = new Iterable([
+            { name: 'alpha', age: 30 },
+            { name: 'bravo', age: 25 },
+            { name: 'charlie', age: 40 },
+            { name: 'delta', age: 25 }
+        ]);
+        const empty = Iterable.empty<number>();
+
+        it('.aggregate should accumulate values', () => {
+            expect(numbers.aggregate('', (acc, x, i) => acc + (i ? ',' : '') + x)).to.equal('4,8,15,16,23,42');
+            expect(empty.aggregate(10, (acc, x) => acc + x)).to.equal(10);
+            expect(() => numbers.aggregate(0, null)).to.throw(ReferenceError);
+        });
+
+        it('.sum should sum values', () => {
+            expect(numbers.sum()).to.equal(108);
+            expect(people.sum(x => x.age)).to.equal(120);
+            expect(empty.sum()).to.equal(0);
+        });
+
+        it('.average should average values', () => {
+            expect(numbers.average()).to.equal(18);
+            expect(people.average(x => x.age)).to.equal(30);
+            expect(() => empty.average()).to.throw(SequenceEmptyError);
+        });
+
+        it('.min and .max should return extreme values', () => {
+            expect(numbers.min()).to.equal(4);
+            expect(numbers.max()).to.equal(42);
+            expect(people.min(x => x.name)).to.equal('alpha');
+            expect(people.max(x => x.name, (a, b) => a.length - b.length)).to.equal('charlie');
+            expect(() => empty.min()).to.throw(SequenceEmptyError);
+            expect(() => empty.max()).to.throw(SequenceEmptyError);
+        });
+
+        it('.minBy and .maxBy should return the first element with the extreme key', () => {
+            expect(people.minBy(x => x.age).name).to.equal('bravo');
+            expect(people.maxBy(x => x.age).name).to.equal('charlie');
+            expect(people.maxBy(x => x.age, (a, b) => b - a).name).to.equal('bravo');
+            expect(() => people.minBy(null)).to.throw(ReferenceError);
+            expect(() => empty.maxBy(x => x)).to.throw(SequenceEmptyError);
+        });
+
+        it('.stats should compute descriptive statistics', () => {
+            const stats = new Iterable([2, 4, 4, 4, 5, 5, 7, 9]).stats();
+            expect(stats.count).to.equal(8);
+            expect(stats.sum).to.equal(40);
+            expect(stats.min).to.equal(2);
+            expect(stats.max).to.equal(9);
+            expect(stats.mean).to.equal(5);
+            expect(stats.variance).to.equal(4);
+            expect(stats.stddev).to.equal(2);
+            expect(stats.median).to.equal(4.5);
+            expect(stats.percentiles).to.eql({ 25: 4, 50: 4.5, 75: 5.5 });
+        });
+
+        it('.stats should support selectors and custom percentiles', () => {
+            const stats = people.stats(x => x.age, [0, 90, 100]);
+            expect(stats.median).to.equal(27.5);
+            expect(stats.percentiles[0]).to.equal(25);
+            expect(stats.percentiles[90]).to.equal(37);
+            expect(stats.percentiles[100]).to.equal(40);
+        });
+
+        it('.stats should throw when source is empty or percentiles are invalid', () => {
+            expect(() => empty.stats()).to.throw(SequenceEmptyError);
+            expect(() => numbers.stats(undefined, [101])).to.throw(RangeError);
+            expect(() => numbers.stats(undefined, [-1])).to.throw(RangeError);
+        });
+    });
+
+    describe('slicing', () => {
+        const numbers = new Iterable([1, 2, 3, 4, 5]);
+        let pulled: number;
+        let naturals: Iterable<number>;
+
+        beforeEach(() => {
+            pulled = 0;
+            naturals = new Iterable(function* () {
+                while (true) {
+                    yield pulled++;
+                }
+            });
+        });
+
+        it('.skip should skip elements', () => {
+            expect(numbers.skip(2).items()).to.eql([3, 4, 5]);
+            expect(numbers.skip(0).items()).to.eql([1, 2, 3, 4, 5]);
+            expect(numbers.skip(10).items()).to.eql([]);
+        });
+
+        it('.take should take elements without pulling further from the source', () => {
+            expect(numbers.take(2).items()).to.eql([1, 2]);
+            expect(numbers.take(0).items()).to.eql([]);
+            expect(numbers.take(10).items()).to.eql([1, 2, 3, 4, 5]);
+            expect(naturals.take(3).items()).to.eql([0, 1, 2]);
+            expect(pulled).to.equal(3);
+        });
+
+        it('.take should be invocable multiple times', () => {
+            const taken = naturals.skip(1).take(2);
+            expect(taken.items()).to.eql([1, 2]);
+            expect(taken.items()).to.eql([4, 5]);
+        });
+
+        it('.takeWhile should stop at the first failing element', () => {
+            expect(numbers.takeWhile(x => x < 3).items()).to.eql([1, 2]);
+            expect(naturals.takeWhile((x, i) => i < 4).items()).to.eql([0, 1, 2, 3]);
+            expect(pulled).to.equal(5);
+        });
+
+        it('.skipWhile should skip until the first failing element', () => {
+            expect(new Iterable([1, 2, 5, 1]).skipWhile(x => x < 3).items()).to.eql([5, 1]);
+            expect(naturals.skipWhile(x => x < 10).first()).to.equal(10);
+        });
+
+        it('should throw when predicate is null or undefined', () => {
+            expect(() => numbers.takeWhile(null)).to.throw(ReferenceError);
+            expect(() => numbers.skipWhile(undefined)).to.throw(ReferenceError);
+        });
+
+        it('.takeLast and .skipLast should slice from the end', () => {
+            expect(numbers.takeLast(2).items()).to.eql([4, 5]);
+            expect(numbers.takeLast(0).items()).to.eql([]);
+            expect(numbers.takeLast(10).items()).to.eql([1, 2, 3, 4, 5]);
+            expect(numbers.skipLast(2).items()).to.eql([1, 2, 3]);
+            expect(numbers.skipLast(0).items()).to.eql([1, 2, 3, 4, 5]);
+            expect(numbers.skipLast(10).items()).to.eql([]);
+        });
+
+        it('.takeLast and .skipLast should buffer only the counted elements', () => {
+            const range = Iterable.range(0, 10);
+            expect(range.takeLast(3).items()).to.eql([7, 8, 9]);
+            expect(range.skipLast(3).items()).to.eql([0, 1, 2, 3, 4, 5, 6]);
+            expect(naturals.skipLast(2).take(3).items()).to.eql([0, 1, 2]);
+            expect(pulled).to.equal(5);
+        });
+
+        it('should throw when a count is not a non-negative integer', () => {
+            for (const count of [-1, 1.5, NaN, Infinity, null]) {
+                expect(() => numbers.skip(count)).to.throw(ArgumentOutOfRangeError);
+                expect(() => numbers.take(count)).to.throw(ArgumentOutOfRangeError);
+                expect(() => numbers.skipLast(count)).to.throw(ArgumentOutOfRangeError);
+                expect(() => numbers.takeLast(count)).to.throw(ArgumentOutOfRangeError);
+            }
+        });
+
+        it('.last should return the last element', () => {
+            expect(numbers.last()).to.equal(5);
+            expect(numbers.last(x => x % 2 === 0)).to.equal(4);
+            expect(numbers.filter(() => true).last()).to.equal(5);
+            expect(numbers.filter(() => true).last((x, i) => i < 2)).to.equal(2);
+            expect(Iterable.empty().last()).to.be.null;
+            expect(new Iterable(new Set<number>()).last()).to.be.null;
+            expect(numbers.last(x => x > 5)).to.be.null;
+        });
+
+        it('.last should not enumerate array sources', () => {
+            const array = [1, 2, 3];
+            array[Symbol.iterator] = () => {
+                throw new Error('should not be enumerated');
+            };
+
+            expect(new Iterable(new Iterable(array)).last()).to.equal(3);
+            expect(new Iterable(array).elementAt(1)).to.equal(2);
+        });
+
+        it('.last should invoke the filter for every element in order', () => {
+            for (const source of [[1, 2, 3], new Set([1, 2, 3])]) {
+                const calls: string[] = [];
+                const result = new Iterable(source).last((x, index) => {
+                    calls.push(`${x}@${index}`);
+                    return x < 3;
+                });
+
+                expect(result).to.equal(2);
+                expect(calls).to.eql(['1@0', '2@1', '3@2']);
+            }
+        });
+
+        it('.elementAt should return the element at a position', () => {
+            expect(numbers.elementAt(0)).to.equal(1);
+            expect(numbers.elementAt(5)).to.be.null;
+            expect(naturals.elementAt(3)).to.equal(3);
+            expect(numbers.filter(() => true).elementAt(7)).to.be.null;
+            expect(() => numbers.elementAt(-1)).to.throw(RangeError);
+        });
+
+        it('.single should return the only element', () => {
+            expect(new Iterable([1]).single()).to.equal(1);
+            expect(numbers.single(x => x === 3)).to.equal(3);
+            expect(() => numbers.single()).to.throw(MoreThanOneElementError);
+            expect(() => numbers.single(x => x > 5)).to.throw(SequenceEmptyError);
+        });
+    });
+
+    describe('strict element operators', () => {
+        const numbers = new Iterable([1, 2, 3]);
+        const nulls = new Iterable<number>([null]);
+        const empty = Iterable.empty<number>();
+
+        it('.firstOrThrow should tell null elements apart from no elements', () => {
+            expect(nulls.firstOrThrow()).to.be.null;
+            expect(numbers.firstOrThrow(x => x > 1)).to.equal(2);
+            expect(() => empty.firstOrThrow()).to.throw(SequenceEmptyError);
+            expect(() => numbers.firstOrThrow(x => x > 3)).to.throw(SequenceEmptyError);
+        });
+
+        it('.firstOrDefault should return default value when there is no element', () => {
+            expect(empty.firstOrDefault(-1)).to.equal(-1);
+            expect(numbers.firstOrDefault(-1)).to.equal(1);
+            expect(numbers.firstOrDefault(-1, x => x > 3)).to.equal(-1);
+        });
+
+        it('.singleOrDefault should return default value when there is no element', () => {
+            expect(empty.singleOrDefault(-1)).to.equal(-1);
+            expect(nulls.singleOrDefault(-1)).to.be.null;
+            expect(numbers.singleOrDefault(-1, x => x === 2)).to.equal(2);
+            expect(() => numbers.singleOrDefault(-1)).to.throw(MoreThanOneElementError);
+        });
+
+        it('should throw typed errors', () => {
+            expect(() => empty.single()).to.throw(SequenceEmptyError, 'Sequence contains no elements');
+            expect(() => numbers.single()).to.throw(MoreThanOneElementError, 'more than one element');
+            expect(() => numbers.filter(null)).to.throw(ArgumentNullError, 'Invalid filter. filter is null');
+            expect(() => numbers.distinct(undefined)).to.throw(ArgumentNullError);
+            expect(() => numbers.join(null, x => x, x => x, x => x)).to.throw(ArgumentNullError);
+            expect(() => numbers.chunk(0)).to.throw(ArgumentOutOfRangeError);
+            expect(() => numbers.elementAt(-1)).to.throw(ArgumentOutOfRangeError);
+        });
+
+        it('typed errors should expose names and argument names', () => {
+            try {
+                numbers.groupBy(null);
+                expect.fail('Expected groupBy to throw');
+            } catch (e) {
+                expect(e).to.be.instanceOf(ReferenceError);
+                expect(e.name).to.equal('ArgumentNullError');
+                expect(e.argumentName).to.equal('keySelector');
+            }
+        });
+    });
+
+    describe('combining', () => {
+        let closed: string[];
+
+        function tracked<T>(name: string, items: T[]): Iterable<T> {
+            return new Iterable(function* () {
+                try {
+                    yield* items;
+                } finally {
+                    closed.push(name);
+                }
+            });
+        }
+
+        beforeEach(() => {
+            closed = [];
+        });
+
+        it('should throw when other iterables are null or undefined', () => {
+            const iterable = new Iterable([1]);
+            expect(() => iterable.zip(null)).to.throw(ArgumentNullError);
+            expect(() => iterable.zipLongest([1], undefined)).to.throw(ArgumentNullError);
+            expect(() => iterable.interleave(null)).to.throw(ArgumentNullError);
+            expect(() => iterable.product([1], null)).to.throw(ArgumentNullError);
+        });
+
+        it('.zip should combine elements into tuples up to the shortest source', () => {
+            const zipped: [number, string, boolean][] = new Iterable([1, 2, 3])
+                .zip(['a', 'b'], [true, false, true])
+                .items();
+
+            expect(zipped).to.eql([
+                [1, 'a', true],
+                [2, 'b', false]
+            ]);
+        });
+
+        it('.zip should close every iterator when a source is exhausted', () => {
+            const items = tracked('a', [1, 2, 3])
+                .zip(tracked('b', ['x']), tracked('c', [true, false]))
+                .items();
+
+            expect(items).to.eql([[1, 'x', true]]);
+            expect(closed.sort()).to.eql(['a', 'b', 'c']);
+        });
+
+        it('.zip should close every iterator when consumption stops early', () => {
+            const first = tracked('a', [1, 2, 3])
+                .zip(tracked('b', [4, 5, 6]))
+                .first();
+
+            expect(first).to.eql([1, 4]);
+            expect(closed.sort()).to.eql(['a', 'b']);
+        });
+
+        it('.zipLongest should fill exhausted sources', () => {
+            expect(new Iterable([1, 2, 3]).zipLongest(['a']).items()).to.eql([
+                [1, 'a'],
+                [2, undefined],
+                [3, undefined]
+            ]);
+
+            expect(
+                new Iterable([1])
+                    .zipLongest(['a', 'b'], [true, false, true], { fillValues: [0, '-'] })
+                    .items()
+            ).to.eql([
+                [1, 'a', true],
+                [0, 'b', false],
+                [0, '-', true]
+            ]);
+        });
+
+        it('.interleave should alternate between sources', () => {
+            const items = new Iterable([1, 4, 7, 9]).interleave([2, 5], [3, 6, 8]).items();
+            expect(items).to.eql([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        });
+
+        it('.interleave should close every iterator when consumption stops early', () => {
+            const items = tracked('a', [1, 3, 5])
+                .interleave(tracked('b', [2, 4]))
+                .take(3)
+                .items();
+
+            expect(items).to.eql([1, 2, 3]);
+            expect(closed.sort()).to.eql(['a', 'b']);
+        });
+
+        it('.product should return the cartesian product', () => {
+            const items = new Iterable([1, 2]).product(['a', 'b'], [true, false]).items();
+            expect(items).to.eql([
+                [1, 'a', true],
+                [1, 'a', false],
+                [1, 'b', true],
+                [1, 'b', false],
+                [2, 'a', true],
+                [2, 'a', false],
+                [2, 'b', true],
+                [2, 'b', false]
+            ]);
+        });
+
+        it('.product should be lazy and handle empty sources', () => {
+            const naturals = new Iterable(function* () {
+                let i = 0;
+                while (true) {
+                    yield i++;
+                }
+            });
+
+            expect(naturals.product(['a']).take(2).items()).to.eql([
+                [0, 'a'],
+                [1, 'a']
+            ]);
+            expect(naturals.product([]).count()).to.equal(0);
+            expect(new Iterable([1, 2]).product().items()).to.eql([[1], [2]]);
+        });
+    });
+
+    describe('factories', () => {
+        it('.range should count up to the exclusive end', () => {
+            expect(Iterable.range(0, 5).items()).to.eql([0, 1, 2, 3, 4]);
+            expect(Iterable.range(1, 10, 3).items()).to.eql([1, 4, 7]);
+            expect(Iterable.range(5, 0).count()).to.equal(0);
+        });
+
+        it('.range should support negative and fractional steps', () => {
+            expect(Iterable.range(5, 0, -2).items()).to.eql([5, 3, 1]);
+            expect(Iterable.range(0, 0.5, 0.1).items()).to.eql([0, 0.1, 0.2, 0.30000000000000004, 0.4]);
+        });
+
+        it('.range should support bigints', () => {
+            const items = Iterable.range(BigInt(10), BigInt(4), BigInt(-3)).items();
+            expect(items.map(x => typeof x)).to.eql(['bigint', 'bigint']);
+            expect(items.map(x => x.toString())).to.eql(['10', '7']);
+            expect(Iterable.range(BigInt(0), BigInt(3)).count()).to.equal(3);
+        });
+
+        it('.range should throw for invalid arguments', () => {
+            expect(() => Iterable.range(0, 5, 0)).to.throw(ArgumentOutOfRangeError);
+            expect(() => Iterable.range(BigInt(0), BigInt(5), BigInt(0))).to.throw(ArgumentOutOfRangeError);
+            expect(() => Iterable.range(null, 5)).to.throw(ArgumentNullError);
+        });
+
+        it('.repeat should repeat a value', () => {
+            expect(Iterable.repeat('a', 3).items()).to.eql(['a', 'a', 'a']);
+            expect(Iterable.repeat('a', 0).count()).to.equal(0);
+            expect(Iterable.repeat('a').take(5).count()).to.equal(5);
+            expect(() => Iterable.repeat('a', -1)).to.throw(ArgumentOutOfRangeError);
+        });
+
+        it('.generate should lazily invoke the generator function', () => {
+            let calls = 0;
+            const squares = Iterable.generate(i => {
+                calls++;
+                return i * i;
+            });
+
+            expect(calls).to.equal(0);
+            expect(squares.take(4).items()).to.eql([0, 1, 4, 9]);
+            expect(calls).to.equal(4);
+            expect(() => Iterable.generate(null)).to.throw(ArgumentNullError);
+        });
+
+        it('.unfold should build elements from state until the function ends it', () => {
+            const fibonacci = Iterable.unfold<[number, number], number>([0, 1], ([a, b]) => [a, [b, a + b]]);
+            expect(fibonacci.take(7).items()).to.eql([0, 1, 1, 2, 3, 5, 8]);
+
+            const countdown = Iterable.unfold(3, x => (x > 0 ? [x, x - 1] : null));
+            expect(countdown.items()).to.eql([3, 2, 1]);
+            expect(() => Iterable.unfold(0, undefined)).to.throw(ArgumentNullError);
+        });
+
+        it('.cycle should repeat the source', () => {
+            const source = new Iterable([1, 2]);
+            expect(source.cycle(3).items()).to.eql([1, 2, 1, 2, 1, 2]);
+            expect(source.cycle(0).count()).to.equal(0);
+            expect(source.cycle().take(5).items()).to.eql([1, 2, 1, 2, 1]);
+            expect(Iterable.empty().cycle().count()).to.equal(0);
+            expect(() => source.cycle(-1)).to.throw(ArgumentOutOfRangeError);
+        });
+
+        it('.cycle should enumerate the source only once', () => {
+            const generator = (function* () {
+                yield 'a';
+                yield 'b';
+            })();
+
+            expect(new Iterable(generator).cycle(2).items()).to.eql(['a', 'b', 'a', 'b']);
+        });
+    });
+
+    describe('sharing', () => {
+        let pulled: number;
+
+        function source(): Iterable<number> {
+            return new Iterable(
+                (function* () {
+                    for (let i = 0; i < 5; i++) {
+                        pulled++;
+                        yield i;
+                    }
+                })()
+            );
+        }
+
+        beforeEach(() => {
+            pulled = 0;
+        });
+
+        it('.memoize should allow one-shot sources to be enumerated repeatedly', () => {
+            const memoized = source().memoize();
+            expect(memoized.count()).to.equal(5);
+            expect(memoized.items()).to.eql([0, 1, 2, 3, 4]);
+            expect(pulled).to.equal(5);
+        });
+
+        it('.memoize should pull lazily and share one pass between enumerations', () => {
+            const memoized = source().memoize();
+            expect(pulled).to.equal(0);
+            expect(memoized.take(2).items()).to.eql([0, 1]);
+            expect(pulled).to.equal(2);
+
+            const first = memoized[Symbol.iterator]();
+            const second = memoized[Symbol.iterator]();
+            expect(first.next().value).to.equal(0);
+            expect(first.next().value).to.equal(1);
+            expect(first.next().value).to.equal(2);
+            expect(second.next().value).to.equal(0);
+            expect(pulled).to.equal(3);
+            expect(memoized.items()).to.eql([0, 1, 2, 3, 4]);
+            expect(second.next().value).to.equal(1);
+        });
+
+        it('.memoize should rethrow source errors to every enumeration', () => {
+            const memoized = new Iterable(function* () {
+                yield 1;
+                throw new Error('failed');
+            }).memoize();
+
+            expect(() => memoized.items()).to.throw('failed');
+            expect(memoized.first()).to.equal(1);
+            expect(() => memoized.items()).to.throw('failed');
+        });
+
+        it('.tee should return independent iterables over a single pass', () => {
+            const [a, b, c] = source().tee(3);
+            expect(a.items()).to.eql([0, 1, 2, 3, 4]);
+            expect(b.take(2).items()).to.eql([0, 1]);
+            expect(c.items()).to.eql([0, 1, 2, 3, 4]);
+            expect(pulled).to.equal(5);
+        });
+
+        it('.tee should pull lazily when consumers advance together', () => {
+            const [a, b] = source().tee();
+            const first = a[Symbol.iterator]();
+            const second = b[Symbol.iterator]();
+            for (let i = 0; i < 3; i++) {
+                expect(first.next().value).to.equal(i);
+                expect(second.next().value).to.equal(i);
+            }
+
+            expect(pulled).to.equal(3);
+            expect([...b]).to.eql([3, 4]);
+            expect([...a]).to.eql([3, 4]);
+        });
+
+        it('.tee should throw for invalid counts', () => {
+            expect(source().tee(0)).to.eql([]);
+            expect(() => source().tee(-1)).to.throw(ArgumentOutOfRangeError);
+        });
+    });
+
+    describe('equality comparers', () => {
+        const events = new Iterable([
+            { tenantId: 'A', userId: 1, tag: 'x' },
+            { tenantId: 'a', userId: 1, tag: 'y' },
+            { tenantId: 'A', userId: 2, tag: 'z' },
+            { tenantId: 'B', userId: 1, tag: 'w' }
+        ]);
+        const tenantUser = tupleEqualityComparer<[string, number]>(caseInsensitiveEqualityComparer);
+
+        it('.distinct should deduplicate composite keys', () => {
+            const tags = events
+                .distinct(x => [x.tenantId, x.userId] as [string, number], tenantUser)
+                .map(x => x.tag)
+                .items();
+
+            expect(tags).to.eql(['x', 'z', 'w']);
+        });
+
+        it('.distinct should deduplicate structurally equal objects', () => {
+            const items = new Iterable([{ a: 1 }, { a: 1 }, { a: 2 }])
+                .distinct(x => x, structuralEqualityComparer)
+                .items();
+
+            expect(items).to.eql([{ a: 1 }, { a: 2 }]);
+        });
+
+        it('.groupBy and .toLookup should group by comparer', () => {
+            const groups = events
+                .groupBy(x => x.tenantId, x => x.tag, undefined, caseInsensitiveEqualityComparer)
+                .items();
+
+            expect(groups.map(x => [x.key, x.items()])).to.eql([
+                ['A', ['x', 'y', 'z']],
+                ['B', ['w']]
+            ]);
+
+            const lookup = events.toLookup(x => [x.tenantId, x.userId] as [string, number], undefined, tenantUser);
+            expect(lookup.size).to.equal(3);
+            expect(lookup.get(['a', 1]).count()).to.equal(2);
+            expect(lookup.has(['b', 1])).to.be.true;
+        });
+
+        it('joins should match keys by comparer', () => {
+            const names = [
+                { tenantId: 'a', name: 'Alpha' },
+                { tenantId: 'c', name: 'Charlie' }
+            ];
+            const key = <T extends { tenantId: string }>(x: T) => x.tenantId;
+
+            expect(
+                events
+                    .join(names, key, key, (e, n) => `${e.tag}:${n.name}`, caseInsensitiveEqualityComparer)
+                    .items()
+            ).to.eql(['x:Alpha', 'y:Alpha', 'z:Alpha']);
+            expect(
+                events
+                    .fullOuterJoin(names, key, key, (e, n) => (e ? e.tag : n.name), caseInsensitiveEqualityComparer)
+                    .items()
+            ).to.eql(['x', 'y', 'z', 'w', 'Charlie']);
+            expect(
+                events
+                    .rightJoin(names, key, key, (e, n) => (e ? e.tag : n.name), caseInsensitiveEqualityComparer)
+                    .items()
+            ).to.eql(['x', 'y', 'z', 'Charlie']);
+        });
+
+        it('set operations should compare keys by comparer', () => {
+            const words = new Iterable(['Apple', 'banana', 'Cherry']);
+            const others = ['APPLE', 'cherry', 'Date'];
+            const comparer = caseInsensitiveEqualityComparer;
+            const identity = (x: string) => x;
+
+            expect(words.union(others, identity, comparer).items()).to.eql(['Apple', 'banana', 'Cherry', 'Date']);
+            expect(words.intersect(others, identity, comparer).items()).to.eql(['Apple', 'Cherry']);
+            expect(words.except(others, identity, comparer).items()).to.eql(['banana']);
+            expect(words.symmetricDifference(others, identity, comparer).items()).to.eql(['banana', 'Date']);
+        });
+    });
+
+    describe('collection sinks', () => {
+        const people = new Iterable([
+            { name: 'ann', team: 'red', score: 3 },
+            { name: 'bob', team: 'blue', score: 5 },
+            { name: 'cat', team: 'red', score: 7 }
+        ]);
+
+        it('.toArray should copy array sources', () => {
+            const source = [1, 2, 3];
+            const array = new Iterable(source).toArray();
+            expect(array).to.eql(source);
+            expect(array).to.not.equal(source);
+        });
+
+        it('.toArray should fill the holes of sparse arrays', () => {
+            const array = new Iterable([, 1]).items();
+            expect(0 in array).to.equal(true);
+            expect(array).to.eql([undefined, 1]);
+        });
+
+        it('.toArray should materialize sized and unsized sources', () => {
+            expect(new Iterable(new Set([1, 2])).toArray()).to.eql([1, 2]);
+            expect(new Iterable(new Iterable(new Map([['a', 1]]))).toArray()).to.eql([['a', 1]]);
+            expect(new Iterable([1, 2, 3]).filter(x => x > 1).toArray()).to.eql([2, 3]);
+            expect(people.items().length).to.equal(3);
+        });
+
+        it('.toArray should tolerate sources that change size while enumerating', () => {
+            const set = new Set([1, 2, 3]);
+            const values = set.values.bind(set);
+            set[Symbol.iterator] = () => {
+                set.delete(3);
+                return values();
+            };
+
+            expect(new Iterable(set).toArray()).to.eql([1, 2]);
+        });
+
+        it('.toMap should key elements by selector', () => {
+            const map = people.toMap(x => x.name, x => x.score);
+            expect([...map]).to.eql([['ann', 3], ['bob', 5], ['cat', 7]]);
+            expect(people.toMap(x => x.name).get('bob').team).to.equal('blue');
+        });
+
+        it('.toMap should apply the duplicate key policy', () => {
+            expect(() => people.toMap(x => x.team)).to.throw(DuplicateKeyError, 'duplicate key red');
+            expect(people.toMap(x => x.team, x => x.name, 'first').get('red')).to.equal('ann');
+            expect(people.toMap(x => x.team, x => x.name, 'last').get('red')).to.equal('cat');
+            expect(people.toMap(x => x.team, x => x.score, (a, b) => a + b).get('red')).to.equal(10);
+        });
+
+        it('.toMap should validate arguments', () => {
+            expect(() => people.toMap(null)).to.throw(ArgumentNullError);
+            expect(() => people.toMap(x => x.name, undefined, 'latest' as any)).to.throw(ArgumentOutOfRangeError);
+        });
+
+        it('.toMap should compare keys by comparer', () => {
+            const map = new Iterable(['a', 'A', 'b']).toMap(x => x, undefined, 'last', caseInsensitiveEqualityComparer);
+            expect(map.size).to.equal(2);
+            expect(map.get('a')).to.equal('A');
+        });
+
+        it('.toRecord should key elements by string selector', () => {
+            expect(people.toRecord(x => x.name, x => x.score)).to.eql({ ann: 3, bob: 5, cat: 7 });
+            expect(people.toRecord(x => x.team, x => x.score, (a, b) => Math.max(a, b))).to.eql({ red: 7, blue: 5 });
+            expect(() => people.toRecord(x => x.team)).to.throw(DuplicateKeyError);
+            expect(() => people.toRecord(null)).to.throw(ArgumentNullError);
+        });
+
+        it('.toRecord should define special keys as own properties', () => {
+            const record = new Iterable(['__proto__', 'constructor']).toRecord(x => x, x => x.length);
+            expect(Object.getPrototypeOf(record)).to.equal(Object.prototype);
+            expect(Object.keys(record)).to.eql(['__proto__', 'constructor']);
+            expect(record.constructor).to.equal(11);
+        });
+
+        it('.toObject should create objects from entries', () => {
+            const entries = new Iterable<[string, number]>([['a', 1], ['b', 2], ['a', 3]]);
+            expect(() => entries.toObject()).to.throw(DuplicateKeyError);
+            expect(entries.toObject('first')).to.eql({ a: 1, b: 2 });
+            expect(entries.toObject('last')).to.eql({ a: 3, b: 2 });
+        });
+
+        it('.toSet should create sets of elements', () => {
+            expect([...new Iterable([1, 2, 1]).toSet()]).to.eql([1, 2]);
+            expect(new Iterable(['a', 'A']).toSet(caseInsensitiveEqualityComparer).size).to.equal(1);
+        });
+
+        it('.joinToString should join elements', () => {
+            const numbers = new Iterable([1, null, 3]);
+            expect(numbers.joinToString()).to.equal('1,,3');
+            expect(numbers.joinToString(', ', '[', ']')).to.equal('[1, , 3]');
+            expect(Iterable.empty().joinToString(', ', '[', ']')).to.equal('[]');
+        });
+
+        it('.joinToString should truncate at the limit', () => {
+            let pulled = 0;
+            const numbers = Iterable.generate(x => {
+                pulled++;
+                return x;
+            });
+
+            expect(numbers.joinToString(', ', '', '', 3)).to.equal('0, 1, 2, ...');
+            expect(pulled).to.equal(4);
+            expect(new Iterable([1, 2]).joinToString('|', '<', '>', 2)).to.equal('<1|2>');
+            expect(new Iterable([1, 2]).joinToString('|', '', '', 0, '…')).to.equal('…');
+            expect(() => numbers.joinToString(',', '', '', -1)).to.throw(ArgumentOutOfRangeError);
+        });
+    });
+
+    describe('adjacency', () => {
+        const log = [
+            { level: 'info', message: 'a' },
+            { level: 'INFO', message: 'b' },
+            { level: 'warn', message: 'c' },
+            { level: 'info', message: 'd' }
+        ];
+
+        it('.scan should yield running accumulations', () => {
+            const totals = new Iterable([1, 2, 3, 4]).scan(10, (sum, x) => sum + x);
+            expect(totals.items()).to.eql([11, 13, 16, 20]);
+            expect(new Iterable([]).scan(0, (sum, x) => sum + x).items()).to.eql([]);
+            expect(new Iterable(['a', 'b']).scan('', (acc, x, index) => acc + x + index).items()).to.eql([
+                'a0',
+                'a0b1'
+            ]);
+        });
+
+        it('.scan should be lazy', () => {
+            let calls = 0;
+            const totals = Iterable.generate(x => x).scan(0, (sum, x) => {
+                calls++;
+                return sum + x;
+            });
+
+            expect(calls).to.equal(0);
+            expect(totals.take(3).items()).to.eql([0, 1, 3]);
+            expect(calls).to.equal(3);
+        });
+
+        it('.distinctUntilChanged should drop consecutive duplicates', () => {
+            const values = new Iterable([1, 1, 2, 2, 2, 1, NaN, NaN, 3]);
+            expect(values.distinctUntilChanged().items()).to.eql([1, 2, 1, NaN, 3]);
+        });
+
+        it('.distinctUntilChanged should compare keys using a selector and comparer', () => {
+            const levels = new Iterable(log).distinctUntilChanged(x => x.level, caseInsensitiveEqualityComparer);
+            expect(levels.map(x => x.message).items()).to.eql(['a', 'c', 'd']);
+
+            const indexes: number[] = [];
+            new Iterable(log).distinctUntilChanged((x, index) => indexes.push(index)).count();
+            expect(indexes).to.eql([0, 1, 2, 3]);
+        });
+
+        it('.groupAdjacent should group runs of equal keys', () => {
+            const groups = new Iterable(log).groupAdjacent(x => x.level.toLowerCase()).items();
+            expect(groups.map(x => x.key)).to.eql(['info', 'warn', 'info']);
+            expect(groups.map(x => x.map(y => y.message).items())).to.eql([['a', 'b'], ['c'], ['d']]);
+            expect(new Iterable([]).groupAdjacent(x => x).items()).to.eql([]);
+        });
+
+        it('.groupAdjacent should use the key of the first element of a run', () => {
+            const groups = new Iterable(log).groupAdjacent(x => x.level, caseInsensitiveEqualityComparer);
+            expect(groups.map(x => `${x.key}:${x.count()}`).items()).to.eql(['info:2', 'warn:1', 'info:1']);
+        });
+
+        it('.groupAdjacent should be lazy', () => {
+            const groups = Iterable.generate(x => Math.floor(x / 3)).groupAdjacent(x => x);
+            expect(groups.take(2).map(x => x.items()).items()).to.eql([[0, 0, 0], [1, 1, 1]]);
+        });
+
+        it('.runLengthEncode should count runs of equal elements', () => {
+            expect(new Iterable('aaabccdd').runLengthEncode().items()).to.eql([
+                ['a', 3],
+                ['b', 1],
+                ['c', 2],
+                ['d', 2]
+            ]);
+            expect(new Iterable([]).runLengthEncode().items()).to.eql([]);
+            expect(new Iterable(['a', 'A', 'b']).runLengthEncode(caseInsensitiveEqualityComparer).items()).to.eql([
+                ['a', 2],
+                ['b', 1]
+            ]);
+        });
+
+        it('.runLengthDecode should expand runs', () => {
+            const runs = new Iterable<[string, number]>([['a', 2], ['b', 0], ['c', 1]]);
+            expect(runs.runLengthDecode().joinToString('')).to.equal('aac');
+            expect(new Iterable('aaabccdd').runLengthEncode().runLengthDecode().joinToString('')).to.equal('aaabccdd');
+        });
+
+        it('.runLengthDecode should throw when a count is invalid', () => {
+            expect(() => new Iterable<[string, number]>([['a', -1]]).runLengthDecode().items()).to.throw(
+                ArgumentOutOfRangeError
+            );
+            expect(() => new Iterable<[string, number]>([['a', 1.5]]).runLengthDecode().items()).to.throw(
+                ArgumentOutOfRangeError
+            );
+        });
+
+        it('adjacency operators should validate arguments', () => {
+            expect(() => new Iterable(log).scan(0, null)).to.throw(ArgumentNullError);
+            expect(() => new Iterable(log).groupAdjacent(null)).to.throw(ArgumentNullError);
+            expect(() => new Iterable(log).groupAdjacent(x => x, null)).to.throw(ArgumentNullError);
+        });
+    });
+
+    describe('traversal', () => {
+        interface TreeNode {
+            name: string;
+            children?: TreeNode[];
+        }
+
+        const tree: TreeNode = {
+            name: 'a',
+            children: [
+                { name: 'b', children: [{ name: 'd' }, { name: 'e' }] },
+                { name: 'c', children: [{ name: 'f' }] }
+            ]
+        };
+        const childrenOf = (node: TreeNode) => node.children;
+        const graph = new Map([[1, [2, 3]], [2, [3, 1]], [3, [1]]]);
+
+        function chain(length: number): TreeNode {
+            const root: TreeNode = { name: '0' };
+            let node = root;
+            for (let i = 1; i < length; i++) {
+                node.children = [{ name: i.toString() }];
+                node = node.children[0];
+            }
+
+            return root;
+        }
+
+        it('.traverseDepthFirst should yield nodes in pre-order', () => {
+            const names = Iterable.traverseDepthFirst(tree, childrenOf).map(x => x.name);
+            expect(names.joinToString('')).to.equal('abdecf');
+            expect(names.joinToString('')).to.equal('abdecf');
+        });
+
+        it('.traverseDepthFirst should yield nodes in post-order', () => {
+            const names = Iterable.traverseDepthFirst(tree, childrenOf, { order: 'post' }).map(x => x.name);
+            expect(names.joinToString('')).to.equal('debfca');
+        });
+
+        it('.traverseBreadthFirst should yield nodes level by level', () => {
+            const names = Iterable.traverseBreadthFirst(tree, childrenOf).map(x => x.name);
+            expect(names.joinToString('')).to.equal('abcdef');
+        });
+
+        it('traversals should report the depth to the children selector', () => {
+            for (const traverse of [Iterable.traverseDepthFirst, Iterable.traverseBreadthFirst]) {
+                const depths: string[] = [];
+                traverse(tree, (node: TreeNode, depth: number) => {
+                    depths.push(`${node.name}${depth}`);
+                    return node.children;
+                }).count();
+
+                expect(depths.sort()).to.eql(['a0', 'b1', 'c1', 'd2', 'e2', 'f2']);
+            }
+        });
+
+        it('traversals should skip visited nodes when a key selector is set', () => {
+            const neighbours = (x: number) => graph.get(x);
+            expect(Iterable.traverseDepthFirst(1, neighbours, { key: x => x }).items()).to.eql([1, 2, 3]);
+            expect(Iterable.traverseDepthFirst(1, neighbours, { key: x => x, order: 'post' }).items()).to.eql([3, 2, 1]);
+            expect(Iterable.traverseBreadthFirst(1, neighbours, { key: x => x }).items()).to.eql([1, 2, 3]);
+            expect(Iterable.traverseDepthFirst(1, neighbours).take(5).items()).to.eql([1, 2, 3, 1, 2]);
+
+            const words = (x: string) => (x === 'root' ? ['A', 'a', 'b'] : []);
+            const comparer = caseInsensitiveEqualityComparer;
+            expect(Iterable.traverseBreadthFirst('root', words, { key: x => x, comparer }).items()).to.eql([
+                'root',
+                'A',
+                'b'
+            ]);
+        });
+
+        it('traversals should not overflow the stack on deep trees', () => {
+            const root = chain(100000);
+            expect(Iterable.traverseDepthFirst(root, childrenOf).count()).to.equal(100000);
+            expect(Iterable.traverseDepthFirst(root, childrenOf, { order: 'post' }).first().name).to.equal('99999');
+            expect(Iterable.traverseBreadthFirst(root, childrenOf).count()).to.equal(100000);
+        });
+
+        it('.traverseBreadthFirst should handle wide trees', () => {
+            const wide = Iterable.range(0, 3000).items();
+            const nodes = Iterable.traverseBreadthFirst(-1, x => (x < 0 ? wide : [])).items();
+            expect(nodes.length).to.equal(3001);
+            expect(nodes[3000]).to.equal(2999);
+        });
+
+        it('.traverseDepthFirst should close children iterators when stopped early', () => {
+            let closed = 0;
+            const children = function* (node: TreeNode) {
+                try {
+                    yield* node.children || [];
+                } finally {
+                    closed++;
+                }
+            };
+
+            expect(Iterable.traverseDepthFirst(tree, children).take(3).count()).to.equal(3);
+            expect(closed).to.equal(2);
+        });
+
+        it('traversals should validate arguments', () => {
+            expect(() => Iterable.traverseDepthFirst(tree, null)).to.throw(ArgumentNullError);
+            expect(() => Iterable.traverseBreadthFirst(tree, childrenOf, null)).to.throw(ArgumentNullError);
+            expect(() => Iterable.traverseDepthFirst(tree, childrenOf, { order: 'in' as any })).to.throw(
+                ArgumentOutOfRangeError
+            );
+        });
+
+        it('.flatten should flatten nested iterables', () => {
+            const nested = new Iterable<any>([1, [2, [3, [4]]], 'ab', new Set([5])]);
+            expect(nested.flatten().items()).to.eql([1, 2, 3, 4, 'ab', 5]);
+            expect(nested.flatten(1).items()).to.eql([1, 2, [3, [4]], 'ab', 5]);
+            expect(nested.flatten(0).items()).to.eql(nested.items());
+            expect(() => nested.flatten(-1)).to.throw(ArgumentOutOfRangeError);
+        });
+
+        it('.flatten should not overflow the stack on deep nesting', () => {
+            let nested: any[] = [1];
+            for (let i = 0; i < 100000; i++) {
+                nested = [nested];
+            }
+
+            expect(new Iterable(nested).flatten().items()).to.eql([1]);
+        });
+
+        it('.flatten should close nested iterators when stopped early', () => {
+            const closed: string[] = [];
+            const tracked = function* (name: string, items: any[]) {
+                try {
+                    yield* items;
+                } finally {
+                    closed.push(name);
+                }
+            };
+
+            const nested = new Iterable(() => tracked('outer', [[0], tracked('inner', [1, 2])]));
+            expect(nested.flatten().take(2).items()).to.eql([0, 1]);
+            expect(closed).to.eql(['inner', 'outer']);
+        });
+    });
+
+    describe('fusion', () => {
+        function unenumerable<T extends object>(source: T): T {
+            (source as any)[Symbol.iterator] = () => {
+                throw new Error('The source should not be enumerated.');
+            };
+
+            return source;
+        }
+
+        it('fast paths should enumerate subclasses that override the iterator', () => {
+            class Doubling extends Iterable<number> {
+                static get [Symbol.species](): IterableSpecies {
+                    return Iterable;
+                }
+
+                *[Symbol.iterator](): Iterator<number> {
+                    for (const item of super[Symbol.iterator]() as IterableIterator<number>) {
+                        yield item * 2;
+                    }
+                }
+            }
+
+            for (const source of [[1, 2, 3], new Set([1, 2, 3])]) {
+                const doubled = new Doubling(source);
+                expect(doubled.items()).to.eql([2, 4, 6]);
+                expect(doubled.first()).to.equal(2);
+                expect(doubled.last()).to.equal(6);
+                expect(doubled.elementAt(1)).to.equal(4);
+                expect(doubled.count()).to.equal(3);
+                expect(doubled.filter(x => x > 2).items()).to.eql([4, 6]);
+                expect(doubled.map(x => x + 1).filter(x => x > 3).items()).to.eql([5, 7]);
+                expect(new Iterable(doubled).items()).to.eql([2, 4, 6]);
+            }
+
+            const chained = new Doubling(new Iterable([1, 2, 3]).filter(x => x > 1));
+            expect(chained.map(x => x + 1).items()).to.eql([5, 7]);
+        });
+
+        it('fused map and filter stages should pass each stage its own index', () => {
+            const calls: string[] = [];
+            const result = new Iterable([5, 6, 7, 8])
+                .filter((x, index) => {
+                    calls.push(`filter ${x}@${index}`);
+                    return x % 2 === 0;
+                })
+                .map((x, index) => {
+                    calls.push(`map ${x}@${index}`);
+                    return x * 10;
+                })
+                .filter((x, index) => index > 0);
+
+            expect(result.items()).to.eql([80]);
+            expect(calls).to.eql(['filter 5@0', 'filter 6@1', 'map 6@0', 'filter 7@2', 'filter 8@3', 'map 8@1']);
+            expect(result.items()).to.eql([80]);
+        });
+
+        it('fused stages should interleave callbacks like unfused stages', () => {
+            const calls: string[] = [];
+            const track = (name: string) => (x: number): any => {
+                calls.push(`${name}${x}`);
+                return x;
+            };
+
+            new Iterable([1, 2, 3])
+                .map(track('a'))
+                .filter(track('b'))
+                .map(track('c'))
+                .items();
+            const fused = calls.splice(0);
+            new Iterable(pipe([1, 2, 3], map(track('a')), filter(track('b')), map(track('c')))).items();
+            expect(fused).to.eql(calls);
+        });
+
+        it('fused stages should not affect the iterables they were created from', () => {
+            const doubled = new Iterable([1, 2, 3, 4]).map(x => x * 2);
+            const large = doubled.filter(x => x > 4);
+            const labels = doubled.map(x => `#${x}`);
+            expect(doubled.items()).to.eql([2, 4, 6, 8]);
+            expect(large.items()).to.eql([6, 8]);
+            expect(labels.items()).to.eql(['#2', '#4', '#6', '#8']);
+        });
+
+        it('fused stages should close the source when stopped early', () => {
+            let closed = false;
+            const source = new Iterable(function* () {
+                try {
+                    yield* [1, 2, 3, 4];
+                } finally {
+                    closed = true;
+                }
+            });
+
+            expect(
+                source
+                    .map(x => x + 1)
+                    .filter(x => x > 2)
+                    .first()
+            ).to.equal(3);
+            expect(closed).to.be.true;
+            expect(() => source.map(null)).to.throw(ArgumentNullError);
+            expect(() => source.filter(null)).to.throw(ArgumentNullError);
+        });
+
+        it('.count should use the size of arrays, sets and maps', () => {
+            expect(new Iterable(unenumerable([1, 2, 3])).count()).to.equal(3);
+            expect(new Iterable(unenumerable(new Set([1, 2]))).count()).to.equal(2);
+            expect(new Iterable(new Iterable(unenumerable(new Map([[1, 'a']])))).count()).to.equal(1);
+        });
+
+        it('.count should still invoke the callbacks of lazy stages', () => {
+            let calls = 0;
+            const mapped = new Iterable([1, 2, 3]).map(x => {
+                calls++;
+                return x;
+            });
+
+            expect(mapped.count()).to.equal(3);
+            expect(calls).to.equal(3);
+        });
+
+        it('.first should index array sources', () => {
+            const numbers = unenumerable([4, 5]);
+            expect(new Iterable(numbers).first()).to.equal(4);
+            expect(new Iterable(unenumerable([])).firstOrDefault(7)).to.equal(7);
+            expect(new Iterable([4, 5]).first(x => x > 4)).to.equal(5);
+        });
+
+        it('.items should copy sets and maps', () => {
+            const set = new Set([1, 2]);
+            const items = new Iterable(set).items();
+            set.add(3);
+            expect(items).to.eql([1, 2]);
+            expect(new Iterable(new Map([[1, 'a']])).items()).to.eql([[1, 'a']]);
+        });
+    });
+
+    describe('cleanup', () => {
+        let closed: string[];
+        beforeEach(() => (closed = []));
+
+        function tracked<T>(name: string, items: T[]): Iterable<T> {
+            return new Iterable(function* () {
+                try {
+                    yield* items;
+                } finally {
+                    closed.push(name);
+                }
+            });
+        }
+
+        it('breaking out of a chain should close every iterator in it', () => {
+            const chain = tracked('first', [1, 2])
+                .concat(tracked('second', [3, 4]))
+                .map(x => x * 10)
+                .filter(x => x > 0);
+
+            for (const item of chain) {
+                if (item === 30) {
+                    break;
+                }
+            }
+
+            expect(closed).to.eql(['first', 'second']);
+        });
+
+        it('breaking out of mapMany should close the inner and outer iterators', () => {
+            const chain = tracked('outer', [1, 2, 3]).mapMany(x => tracked(`inner ${x}`, [x, x]));
+            expect(chain.take(3).items()).to.eql([1, 1, 2]);
+            expect(closed).to.eql(['inner 1', 'inner 2', 'outer']);
+        });
+
+        it('throwing in a chain should close every iterator in it', () => {
+            const chain = tracked('outer', [1, 2])
+                .mapMany(x => tracked(`inner ${x}`, [x]))
+                .concat(tracked('second', [3, 4]))
+                .map(x => {
+                    if (x === 3) {
+                        throw new Error('failed');
+                    }
+
+                    return x;
+                });
+
+            expect(() => chain.items()).to.throw('failed');
+            expect(closed).to.eql(['inner 1', 'inner 2', 'outer', 'second']);
+        });
+
+        it('stopping combined iterables should close all their sources', () => {
+            tracked('a', [1, 2])
+                .zip(tracked('b', [3, 4]))
+                .first();
+            expect(closed).to.have.members(['a', 'b']);
+
+            closed = [];
+            tracked('a', [1, 2])
+                .interleave(tracked('b', [3, 4]))
+                .take(3)
+                .items();
+            expect(closed).to.have.members(['a', 'b']);
+        });
+
+        it('stopping every branch of tee should close the source', () => {
+            const [left, right] = tracked('source', [1, 2, 3]).tee();
+            expect(left.first()).to.equal(1);
+            expect(closed).to.eql([]);
+            expect(right.take(2).items()).to.eql([1, 2]);
+            expect(closed).to.eql(['source']);
+        });
+
+        it('stopping every branch of tee should not require the source to be closable', () => {
+            const source = { [Symbol.iterator]: () => ({ next: () => ({ done: false, value: 1 }) }) };
+            const [left, right] = new Iterable(source).tee();
+            expect(left.first()).to.equal(1);
+            expect(right.first()).to.equal(1);
+        });
+
+        it('.finally should invoke an action when an enumeration ends', () => {
+            let calls = 0;
+            const numbers = new Iterable([1, 2, 3]).finally(() => calls++);
+            expect(calls).to.equal(0);
+            expect(numbers.items()).to.eql([1, 2, 3]);
+            expect(calls).to.equal(1);
+            expect(numbers.first()).to.equal(1);
+            expect(calls).to.equal(2);
+
+            const failing = numbers.map(() => {
+                throw new Error('failed');
+            });
+            expect(() => failing.items()).to.throw('failed');
+            expect(calls).to.equal(3);
+            expect(() => numbers.finally(null)).to.throw(ArgumentNullError);
+        });
+
+        it('.using should dispose the resource of each enumeration', () => {
+            const log: string[] = [];
+            let opened = 0;
+            const lines = Iterable.using(
+                () => {
+                    const id = ++opened;
+                    log.push(`open ${id}`);
+                    return { lines: ['a', 'b'], dispose: () => log.push(`dispose ${id}`) };
+                },
+                file => file.lines
+            );
+
+            expect(log).to.eql([]);
+            expect(lines.first()).to.equal('a');
+            expect(lines.items()).to.eql(['a', 'b']);
+            expect(() =>
+                lines
+                    .map(() => {
+                        throw new Error('failed');
+                    })
+                    .items()
+            ).to.throw('failed');
+            expect(log).to.eql(['open 1', 'dispose 1', 'open 2', 'dispose 2', 'open 3', 'dispose 3']);
+        });
+
+        it('.using should prefer Symbol.dispose and ignore null resources', () => {
+            const log: string[] = [];
+            const resource = {
+                [(Symbol as any).dispose]: () => log.push('symbol'),
+                dispose: () => log.push('method')
+            };
+
+            expect(Iterable.using(() => resource, () => [1]).items()).to.eql([1]);
+            expect(Iterable.using(() => null, () => [2]).items()).to.eql([2]);
+            expect(log).to.eql(['symbol']);
+        });
+
+        it('.using should throw when a resource is not disposable', () => {
+            expect(() => Iterable.using(() => ({}), () => [1]).items()).to.throw(TypeError);
+            expect(() => Iterable.using(null, () => [1])).to.throw(ArgumentNullError);
+            expect(() => Iterable.using(() => null, null)).to.throw(ArgumentNullError);
+        });
+    });
+
+    describe('tracing', () => {
+        afterEach(() => Iterable.disableTracing());
+
+        it('.tap should invoke an action for each enumerated element', () => {
+            const seen: string[] = [];
+            const tapped = new Iterable([1, 2, 3]).tap((x, index) => seen.push(`${index}:${x}`));
+            expect(seen).to.eql([]);
+            expect(tapped.take(2).items()).to.eql([1, 2]);
+            expect(seen).to.eql(['0:1', '1:2']);
+            expect(() => tapped.tap(null)).to.throw(ArgumentNullError);
+        });
+
+        it('.explain should return no traces when tracing is disabled', () => {
+            expect(new Iterable([1, 2]).map(x => x * 2).explain()).to.eql([]);
+        });
+
+        it('.explain should return the traces of each operator', () => {
+            Iterable.enableTracing();
+            const even = (x: number) => x % 2 === 0;
+            const pipeline = new Iterable([1, 2, 3, 4, 5, 6])
+                .filter(even)
+                .map(x => x * 10)
+                .take(2);
+
+            expect(pipeline.items()).to.eql([20, 40]);
+            const traces = pipeline.explain();
+            expect(traces.map(x => x.operator)).to.eql(['filter', 'map', 'take']);
+            expect(traces[0].args).to.eql([even]);
+            expect(traces[2].args).to.eql([2]);
+            expect(traces.map(x => [x.itemsIn, x.itemsOut])).to.eql([
+                [4, 2],
+                [2, 2],
+                [2, 2]
+            ]);
+
+            pipeline.count();
+            expect(traces.map(x => [x.itemsIn, x.itemsOut])).to.eql([
+                [8, 4],
+                [4, 4],
+                [4, 4]
+            ]);
+        });
+
+        it('traces should record the time spent in callbacks', () => {
+            Iterable.enableTracing();
+            const slow = new Iterable([1, 2]).map(x => {
+                const start = Date.now();
+                while (Date.now() - start < 5) {
+                    // Busy waits to simulate an expensive selector.
+                }
+
+                return x;
+            });
+
+            const [trace] = slow.filter(x => x > 0).explain();
+            slow.count();
+            expect(trace.callbackTime).to.be.at.least(9);
+            expect(slow.explain()[0].callbackTime).to.be.below(100);
+        });
+
+        it('traces should be recorded without the performance global', () => {
+            const descriptor = Object.getOwnPropertyDescriptor(global, 'performance');
+            delete (global as any).performance;
+            try {
+                Iterable.enableTracing();
+                const pipeline = new Iterable([1, 2]).map(x => x * 2);
+                expect(pipeline.items()).to.eql([2, 4]);
+                expect(pipeline.explain()[0].callbackTime).to.be.at.least(0);
+            } finally {
+                if (descriptor) {
+                    Object.defineProperty(global, 'performance', descriptor);
+                }
+            }
+        });
+
+        it('the trace hook should be notified when enumerations end', () => {
+            const ended: string[] = [];
+            Iterable.enableTracing(stage => ended.push(`${stage.operator}:${stage.itemsOut}`));
+            const pipeline = Iterable.range(0, 100)
+                .mapMany(x => [x, x])
+                .takeWhile(x => x < 2);
+
+            expect(pipeline.items()).to.eql([0, 0, 1, 1]);
+            expect(ended).to.eql(['mapMany:5', 'takeWhile:4']);
+
+            Iterable.enableTracing();
+            pipeline.count();
+            expect(ended.length).to.equal(2);
+        });
+
+        it('.explain should keep the traces before untraced operators', () => {
+            Iterable.enableTracing();
+            const pipeline = new Iterable([3, 1, 2, 4])
+                .filter(x => x > 1)
+                .orderBy(x => x)
+                .thenByDescending(x => x)
+                .union([5])
+                .map(x => x * 10);
+
+            expect(pipeline.items()).to.eql([20, 30, 40, 50]);
+            expect(pipeline.explain().map(x => x.operator)).to.eql(['filter', 'map']);
+            expect(pipeline.explain()[0].itemsOut).to.equal(3);
+        });
+
+        it('tracing should not record operators used internally', () => {
+            const operators: string[] = [];
+            Iterable.enableTracing(stage => operators.push(stage.operator));
+            const numbers = new Iterable([1, 2, 3]);
+            expect(numbers.sum(x => x)).to.equal(6);
+            expect(numbers.average(x => x)).to.equal(2);
+            expect(numbers.max(x => x)).to.equal(3);
+            expect(numbers.min(x => x)).to.equal(1);
+            expect(numbers.stats(x => x).count).to.equal(3);
+            expect(numbers.except([2]).items()).to.eql([1, 3]);
+            expect(numbers.intersect([2]).items()).to.eql([2]);
+            expect(operators).to.eql([]);
+        });
+
+        it('tracing should preserve behavior of operators', () => {
+            Iterable.enableTracing();
+            const numbers = new NumberIterable([1, 2, 3]).map(x => x * 2);
+            expect(numbers).to.be.instanceOf(NumberIterable);
+            expect((numbers as NumberIterable<number>).total()).to.equal(12);
+            expect(() => numbers.filter(null)).to.throw(ArgumentNullError);
+            expect(
+                numbers
+                    .concat([8])
+                    .window(2)
+                    .items()
+            ).to.eql([
+                [2, 4],
+                [4, 6],
+                [6, 8]
+            ]);
+        });
+
+        it('.disableTracing should restore untraced operators', () => {
+            const map = Iterable.prototype.map;
+            Iterable.enableTracing();
+            Iterable.enableTracing();
+            expect(Iterable.prototype.map).not.to.equal(map);
+            const traced = new Iterable([1]).map(x => x);
+
+            Iterable.disableTracing();
+            expect(Iterable.prototype.map).to.equal(map);
+            expect(new Iterable([1]).map(x => x).explain()).to.eql([]);
+            expect(traced.explain().length).to.equal(1);
+        });
+    });
+
+    describe('extensions', () => {
+        before(() => {
+            Iterable.registerOperator('everyOther', source => source.filter((_, index) => index % 2 === 0));
+            Iterable.registerOperator('sumBy', (source, selector: (item: any) => number) => source.sum(selector));
+        });
+
+        it('.registerOperator should add methods to all iterables', () => {
+            const numbers = new Iterable([1, 2, 3, 4, 5]);
+            expect(numbers.everyOther().items()).to.eql([1, 3, 5]);
+            expect(numbers.map(x => ({ value: x })).sumBy(x => x.value)).to.equal(15);
+            expect(numbers.groupBy(x => x % 2).first().everyOther().items()).to.eql([1, 5]);
+        });
+
+        it('.registerOperator should reject invalid and existing names', () => {
+            expect(() => Iterable.registerOperator(null, () => 0)).to.throw(ArgumentNullError);
+            expect(() => Iterable.registerOperator('custom', undefined)).to.throw(ArgumentNullError);
+            expect(() => Iterable.registerOperator('map', () => 0)).to.throw(ArgumentOutOfRangeError);
+            expect(() => Iterable.registerOperator('everyOther', () => 0)).to.throw(ArgumentOutOfRangeError);
+            expect(() => Iterable.registerOperator('toString', () => 0)).to.throw(ArgumentOutOfRangeError);
+        });
+
+        it('operators should preserve the species of subclasses', () => {
+            const numbers = new NumberIterable([1, 2, 3, 4, 5, 6]);
+            const chained = numbers
+                .filter(x => x > 1)
+                .map(x => x * 2)
+                .everyOther()
+                .skip(1)
+                .concat([100]);
+
+            expect(chained).to.be.instanceOf(NumberIterable);
+            expect((chained as NumberIterable<number>).total()).to.equal(120);
+            expect(numbers.partition(x => x > 3)[1]).to.be.instanceOf(NumberIterable);
+            expect(numbers.tee()[0]).to.be.instanceOf(NumberIterable);
+            expect(numbers.zip(numbers)).to.be.instanceOf(NumberIterable);
+        });
+
+        it('operators keeping the element type should be typed as the subclass', () => {
+            const numbers = new NumberIterable([1, 2, 3, 4, 5, 6]);
+            const chained: NumberIterable<number> = numbers
+                .filter(x => x > 1)
+                .skip(1)
+                .distinct(x => x)
+                .concat([100])
+                .tap(() => undefined)
+                .finally(() => undefined)
+                .takeLast(3);
+
+            expect(chained.total()).to.equal(111);
+            const [matching, rest] = numbers.partition(x => x > 3);
+            expect(matching.total() + rest.total()).to.equal(21);
+            expect(numbers.tee()[0].take(2).total()).to.equal(3);
+
+            const ordered: Iterable<number> = numbers.orderBy(x => -x).take(2);
+            expect(ordered.items()).to.eql([6, 5]);
+        });
+
+        it('operators on groupings, lookups and ordered iterables should return plain iterables', () => {
+            const numbers = new NumberIterable([3, 1, 2]);
+            const grouping = numbers.groupBy(x => x % 2).first();
+            const lookup = numbers.toLookup(x => x % 2);
+            const ordered = numbers.orderBy(x => x);
+
+            for (const source of [grouping, lookup, ordered] as Iterable<any>[]) {
+                const derived = source.filter(() => true);
+                expect(derived.constructor).to.equal(Iterable);
+            }
+
+            expect(ordered.map(x => x * 10).items()).to.eql([10, 20, 30]);
+            expect(grouping).to.be.instanceOf(Iterable);
+        });
+    });
+
     describe('object keys', () => {
         it('expect empty object to have 0 keys', () => {
             const keys = Iterable.keys({});
@@ -506,4 +2427,152 @@ describe('Iterable', () => {
             expect(keys.items()).to.eql([1, 2]);
         });
     });
+
+    describe('object entries', () => {
+        const symbol = Symbol('tag');
+        const base = { inherited: 1, shadowed: 2 };
+        const obj = Object.create(base, {
+            own: { value: 3, enumerable: true },
+            hidden: { value: 4, enumerable: false },
+            shadowed: { value: 5, enumerable: false },
+            [symbol]: { value: 6, enumerable: true }
+        });
+
+        it('.entries should enumerate like for...in by default', () => {
+            expect(Iterable.entries(obj).items()).to.eql([
+                ['own', 3],
+                ['inherited', 1]
+            ]);
+            expect(Iterable.entries(null).count()).to.equal(0);
+            expect(Iterable.entries(undefined).count()).to.equal(0);
+        });
+
+        it('.entries should only enumerate own properties when requested', () => {
+            expect(Iterable.entries(obj, { ownOnly: true }).items()).to.eql([['own', 3]]);
+        });
+
+        it('.entries should enumerate symbol keyed properties when requested', () => {
+            expect(Iterable.entries(obj, { ownOnly: true, symbols: true }).items()).to.eql([
+                ['own', 3],
+                [symbol, 6]
+            ]);
+        });
+
+        it('.entries should enumerate non-enumerable properties when requested', () => {
+            expect(Iterable.entries(obj, { ownOnly: true, nonEnumerable: true }).items()).to.eql([
+                ['own', 3],
+                ['hidden', 4],
+                ['shadowed', 5]
+            ]);
+            expect(Iterable.keys(obj, { nonEnumerable: true }).items()).to.include.members([
+                'inherited',
+                'hasOwnProperty'
+            ]);
+        });
+
+        it('.keys and .values should accept options', () => {
+            expect(Iterable.keys(obj, { ownOnly: true, symbols: true }).items()).to.eql(['own', symbol]);
+            expect(Iterable.values(obj, { ownOnly: true, symbols: true }).items()).to.eql([3, 6]);
+            expect(Iterable.keys([7, 8], { ownOnly: true, nonEnumerable: true }).items()).to.eql(['0', '1', 'length']);
+            expect(Iterable.keys('ab').items()).to.eql(['0', '1']);
+        });
+
+        it('object sources should validate options', () => {
+            expect(() => Iterable.entries(obj, null)).to.throw(ArgumentNullError);
+            expect(() => Iterable.keys(obj, null)).to.throw(ArgumentNullError);
+            expect(() => Iterable.values(obj, null)).to.throw(ArgumentNullError);
+        });
+    });
+
+    describe('object paths', () => {
+        const created = new Date(0);
+        const nested = {
+            name: 'config',
+            server: { host: 'localhost', ports: [80, 443] },
+            tags: [] as string[],
+            meta: { created, extra: {} }
+        };
+
+        it('.paths should yield the leaves of nested objects and arrays', () => {
+            expect(Iterable.paths(nested).items()).to.eql([
+                [['name'], 'config'],
+                [['server', 'host'], 'localhost'],
+                [['server', 'ports', 0], 80],
+                [['server', 'ports', 1], 443],
+                [['tags'], []],
+                [['meta', 'created'], created],
+                [['meta', 'extra'], {}]
+            ]);
+        });
+
+        it('.paths should yield a single leaf for values that are not containers', () => {
+            expect(Iterable.paths(5).items()).to.eql([[[], 5]]);
+            expect(Iterable.paths({}).items()).to.eql([[[], {}]]);
+            expect(Iterable.paths(null).items()).to.eql([[[], null]]);
+        });
+
+        it('.paths should allow shared references but throw on circular references', () => {
+            const shared = { value: 1 };
+            expect(Iterable.paths({ a: shared, b: [shared] }).count()).to.equal(2);
+
+            const circular: any = { a: { b: {} } };
+            circular.a.b.c = circular.a;
+            expect(() => Iterable.paths(circular).items()).to.throw(TypeError, 'a.b.c');
+        });
+
+        it('.paths should not overflow the stack on deep nesting', () => {
+            let deep: any = { leaf: true };
+            for (let i = 0; i < 10000; i++) {
+                deep = [deep];
+            }
+
+            const [[path, value]] = Iterable.paths(deep).items();
+            expect(path.length).to.equal(10001);
+            expect(value).to.be.true;
+        });
+
+        it('.toNestedObject should rebuild the objects of paths', () => {
+            const rebuilt = Iterable.paths(nested).toNestedObject();
+            expect(rebuilt).to.eql(nested);
+            expect(rebuilt).not.to.equal(nested);
+            expect(Iterable.paths(7).toNestedObject()).to.equal(7);
+            expect(new Iterable<[(string | number)[], any]>([]).toNestedObject()).to.be.undefined;
+        });
+
+        it('.toNestedObject should create arrays for numeric keys', () => {
+            const rebuilt = new Iterable<[(string | number)[], any]>([
+                [['list', 1, 'id'], 'b'],
+                [['list', 0, 'id'], 'a'],
+                [['__proto__', 'polluted'], true]
+            ]).toNestedObject();
+
+            expect(rebuilt.list).to.eql([{ id: 'a' }, { id: 'b' }]);
+            expect(Object.keys(rebuilt)).to.eql(['list', '__proto__']);
+            expect(({} as any).polluted).to.be.undefined;
+        });
+
+        it('.toNestedObject should handle duplicate paths', () => {
+            const duplicates = new Iterable<[(string | number)[], any]>([
+                [['a', 'b'], 1],
+                [['a', 'b'], 2]
+            ]);
+
+            expect(() => duplicates.toNestedObject()).to.throw(DuplicateKeyError);
+            expect(duplicates.toNestedObject('first')).to.eql({ a: { b: 1 } });
+            expect(duplicates.toNestedObject((x, y) => x + y)).to.eql({ a: { b: 3 } });
+            expect(() => duplicates.toNestedObject('merge' as any)).to.throw(ArgumentOutOfRangeError);
+        });
+
+        it('.toNestedObject should throw when a path passes through a leaf', () => {
+            const conflicting = new Iterable<[(string | number)[], any]>([
+                [['a'], 1],
+                [['a', 'b'], 2]
+            ]);
+
+            expect(() => conflicting.toNestedObject('last')).to.throw(DuplicateKeyError);
+            expect(() => new Iterable<[(string | number)[], any]>([[null, 1]]).toNestedObject()).to.throw(
+                ArgumentNullError
+            );
+        });
+    });
 });
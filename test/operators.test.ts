@@ -0,0 +1,180 @@
+import 'mocha';
+import { expect } from 'chai';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import Iterable, {
+    aggregate,
+    ArgumentNullError,
+    ArgumentOutOfRangeError,
+    concat,
+    count,
+    distinct,
+    distinctUntilChanged,
+    every,
+    filter,
+    finalize,
+    first,
+    items,
+    map,
+    mapMany,
+    Operator,
+    pairwise,
+    pipe,
+    runLengthDecode,
+    runLengthEncode,
+    scan,
+    skip,
+    skipWhile,
+    some,
+    take,
+    takeWhile,
+    tap
+} from '../src';
+
+describe('operators', () => {
+    const numbers = [1, 2, 3, 4, 5, 6];
+
+    it('should be published as the jsiterable/operators entry point', () => {
+        const entryPoint = resolve(__dirname, '../operators');
+        const manifest = JSON.parse(readFileSync(resolve(entryPoint, 'package.json'), 'utf8'));
+        expect(resolve(entryPoint, manifest.main)).to.equal(resolve(__dirname, '../lib/operators.js'));
+        expect(resolve(entryPoint, manifest.types)).to.equal(resolve(__dirname, '../lib/operators.d.ts'));
+    });
+
+    it('the operators entry point should not load the iterable classes', () => {
+        const sources = resolve(__dirname, '../src');
+        const cached = Object.keys(require.cache).filter(x => x.startsWith(sources));
+        const modules = cached.map(x => require.cache[x]);
+        cached.forEach(x => delete require.cache[x]);
+        try {
+            require('../src/operators');
+            const loaded = Object.keys(require.cache).filter(x => x.startsWith(sources));
+            expect(loaded.map(x => x.slice(sources.length + 1)).sort()).to.eql([
+                'equality.ts',
+                'errors.ts',
+                'operators.ts'
+            ]);
+        } finally {
+            Object.keys(require.cache)
+                .filter(x => x.startsWith(sources))
+                .forEach(x => delete require.cache[x]);
+            cached.forEach((x, index) => (require.cache[x] = modules[index]));
+        }
+    });
+
+    it('pipe should return the source when there are no operators', () => {
+        expect(pipe(numbers)).to.equal(numbers);
+    });
+
+    it('pipe should throw when an operator is null or undefined', () => {
+        expect(() => pipe(numbers, null)).to.throw(ArgumentNullError, 'operators[0]');
+        expect(() => pipe(numbers, map(x => x), undefined)).to.throw(ArgumentNullError, 'operators[1]');
+    });
+
+    it('pipe should infer types across stages', () => {
+        const result: string = pipe(
+            numbers,
+            filter(x => x > 1),
+            map(x => x * 2),
+            skip(1),
+            take(4),
+            map(x => [x, x + 1]),
+            mapMany(x => x),
+            distinct(x => x % 5),
+            skipWhile(x => x < 7),
+            takeWhile(x => x < 100),
+            map(x => x.toString()),
+            items(),
+            x => x.join(',')
+        );
+
+        expect(result).to.equal('7,8,9,10');
+    });
+
+    it('operators should be lazy and re-iterable', () => {
+        let calls = 0;
+        const result = pipe(
+            numbers,
+            map(x => {
+                calls++;
+                return x * 10;
+            })
+        );
+
+        expect(calls).to.equal(0);
+        expect([...result]).to.eql([10, 20, 30, 40, 50, 60]);
+        expect([...result]).to.eql([10, 20, 30, 40, 50, 60]);
+        expect(calls).to.equal(12);
+    });
+
+    it('operators should validate arguments eagerly', () => {
+        expect(() => filter(null)).to.throw(ArgumentNullError);
+        expect(() => map(undefined)).to.throw(ArgumentNullError);
+        expect(() => mapMany(null)).to.throw(ArgumentNullError);
+        expect(() => distinct(null)).to.throw(ArgumentNullError);
+        expect(() => aggregate(0, null)).to.throw(ArgumentNullError);
+        expect(() => some(null)).to.throw(ArgumentNullError);
+        expect(() => every(undefined)).to.throw(ArgumentNullError);
+        expect(() => scan(0, null)).to.throw(ArgumentNullError);
+        expect(() => distinctUntilChanged(x => x, null)).to.throw(ArgumentNullError);
+        expect(() => runLengthEncode(null)).to.throw(ArgumentNullError);
+        expect(() => tap(null)).to.throw(ArgumentNullError);
+        expect(() => finalize(null)).to.throw(ArgumentNullError);
+        expect(() => skip(-1)).to.throw(ArgumentOutOfRangeError);
+        expect(() => take(1.5)).to.throw(ArgumentOutOfRangeError);
+    });
+
+    it('terminal operators should reduce the source', () => {
+        expect(pipe(numbers, count())).to.equal(6);
+        expect(pipe(numbers, first())).to.equal(1);
+        expect(pipe(numbers, first(x => x > 3))).to.equal(4);
+        expect(pipe(numbers, first(x => x > 10))).to.be.null;
+        expect(pipe(numbers, aggregate(0, (sum, x) => sum + x))).to.equal(21);
+        expect(pipe(numbers, some(x => x > 5))).to.be.true;
+        expect(pipe(numbers, every(x => x > 5))).to.be.false;
+        expect(pipe(numbers, concat([7]), pairwise(), items())).to.eql([
+            [1, 2],
+            [2, 3],
+            [3, 4],
+            [4, 5],
+            [5, 6],
+            [6, 7]
+        ]);
+    });
+
+    it('stateful operators should carry state across adjacent elements', () => {
+        const levels = ['info', 'info', 'warn', 'info', 'info', 'info'];
+        expect(pipe(numbers, scan(0, (sum, x) => sum + x), items())).to.eql([1, 3, 6, 10, 15, 21]);
+        expect(pipe(levels, distinctUntilChanged(), items())).to.eql(['info', 'warn', 'info']);
+        expect(pipe(levels, runLengthEncode(), items())).to.eql([
+            ['info', 2],
+            ['warn', 1],
+            ['info', 3]
+        ]);
+        expect(pipe(levels, runLengthEncode(), runLengthDecode(), items())).to.eql(levels);
+
+        const seen: string[] = [];
+        expect(pipe(levels, tap(x => seen.push(x)), distinctUntilChanged(), count())).to.equal(3);
+        expect(seen).to.eql(levels);
+    });
+
+    it('Iterable.pipe should apply operators to the iterable', () => {
+        const evens = new Iterable(numbers).pipe(
+            filter(x => x % 2 === 0),
+            map(x => `#${x}`),
+            items()
+        );
+
+        expect(evens).to.eql(['#2', '#4', '#6']);
+    });
+
+    it('Iterable.pipe should support custom operators', () => {
+        const everyOther = <T>(): Operator<T, T> => filter((_, index) => index % 2 === 0);
+        const wrap = <T>(source: Iterable<T>) => ({ wrapped: source.items() });
+        const iterable = new Iterable(numbers);
+
+        expect(iterable.pipe()).to.equal(iterable);
+        expect(iterable.pipe(everyOther(), items())).to.eql([1, 3, 5]);
+        expect(iterable.pipe(wrap)).to.eql({ wrapped: numbers });
+    });
+});
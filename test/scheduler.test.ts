@@ -0,0 +1,82 @@
+import 'mocha';
+import { expect } from 'chai';
+import { ArgumentOutOfRangeError, defaultScheduler, VirtualScheduler } from '../src';
+
+describe('Scheduler', () => {
+    describe('defaultScheduler', () => {
+        it('should run callbacks after the delay', async () => {
+            const start = defaultScheduler.now();
+            await new Promise(resolve => defaultScheduler.schedule(resolve, 5));
+            expect(defaultScheduler.now() - start).to.be.at.least(4);
+        });
+
+        it('should cancel callbacks', async () => {
+            let called = false;
+            defaultScheduler.schedule(() => (called = true), 0)();
+            await new Promise(resolve => setTimeout(resolve, 5));
+            expect(called).to.be.false;
+        });
+    });
+
+    describe('VirtualScheduler', () => {
+        it('should only move time when advanced', async () => {
+            const scheduler = new VirtualScheduler(100);
+            expect(scheduler.now()).to.equal(100);
+            await scheduler.advanceBy(20);
+            expect(scheduler.now()).to.equal(120);
+            await scheduler.advanceTo(150);
+            expect(scheduler.now()).to.equal(150);
+        });
+
+        it('should run due callbacks in order of their due time', async () => {
+            const scheduler = new VirtualScheduler();
+            const calls: string[] = [];
+            scheduler.schedule(() => calls.push(`b@${scheduler.now()}`), 20);
+            scheduler.schedule(() => calls.push(`a@${scheduler.now()}`), 10);
+            scheduler.schedule(() => calls.push(`c@${scheduler.now()}`), 20);
+            scheduler.schedule(() => calls.push('late'), 31);
+            scheduler.schedule(() => calls.push(`now@${scheduler.now()}`), -5);
+
+            await scheduler.advanceBy(30);
+            expect(calls).to.eql(['now@0', 'a@10', 'b@20', 'c@20']);
+            expect(scheduler.pending).to.equal(1);
+        });
+
+        it('should run callbacks scheduled by promise callbacks of earlier ones', async () => {
+            const scheduler = new VirtualScheduler();
+            const sleep = (ms: number) => new Promise(resolve => scheduler.schedule(resolve, ms));
+            const times: number[] = [];
+            const run = (async () => {
+                for (let i = 0; i < 3; i++) {
+                    await sleep(10);
+                    times.push(scheduler.now());
+                }
+            })();
+
+            await scheduler.advanceBy(25);
+            expect(times).to.eql([10, 20]);
+            await scheduler.advanceBy(5);
+            await run;
+            expect(times).to.eql([10, 20, 30]);
+        });
+
+        it('should cancel callbacks', async () => {
+            const scheduler = new VirtualScheduler();
+            let called = false;
+            const cancel = scheduler.schedule(() => (called = true), 10);
+            cancel();
+            cancel();
+            await scheduler.advanceBy(10);
+            expect(called).to.be.false;
+            expect(scheduler.pending).to.equal(0);
+        });
+
+        it('should reject moving back in time', () => {
+            const scheduler = new VirtualScheduler(10);
+            expect(() => scheduler.advanceBy(-1)).to.throw(ArgumentOutOfRangeError);
+            expect(() => scheduler.advanceBy(NaN)).to.throw(ArgumentOutOfRangeError);
+            expect(() => scheduler.advanceTo(5)).to.throw(ArgumentOutOfRangeError);
+            expect(() => scheduler.advanceTo(undefined)).to.throw(ArgumentOutOfRangeError);
+        });
+    });
+});
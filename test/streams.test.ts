@@ -0,0 +1,218 @@
+import 'mocha';
+import { expect } from 'chai';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { Readable } from 'stream';
+import Iterable, { ArgumentNullError, AsyncIterable } from '../src';
+import { fromReadable, fromReadableStream, toReadable, toReadableStream } from '../src/streams';
+
+async function expectRejection(promise: Promise<any>, message: string): Promise<void> {
+    try {
+        await promise;
+    } catch (e) {
+        expect(e.message).to.equal(message);
+        return;
+    }
+
+    expect.fail('Expected promise to be rejected');
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+function trackedSource(count: number) {
+    const state = { pulled: 0, closed: false };
+    const source = new AsyncIterable(async function* () {
+        try {
+            for (let i = 0; i < count; i++) {
+                state.pulled++;
+                yield i;
+            }
+        } finally {
+            state.closed = true;
+        }
+    });
+
+    return { state, source };
+}
+
+function failingSource() {
+    return new AsyncIterable(async function* () {
+        yield 1;
+        throw new Error('source failed');
+    });
+}
+
+describe('streams', () => {
+    it('should be published as the jsiterable/streams entry point', () => {
+        const entryPoint = resolve(__dirname, '../streams');
+        const manifest = JSON.parse(readFileSync(resolve(entryPoint, 'package.json'), 'utf8'));
+        expect(resolve(entryPoint, manifest.main)).to.equal(resolve(__dirname, '../lib/streams.js'));
+        expect(resolve(entryPoint, manifest.types)).to.equal(resolve(__dirname, '../lib/streams.d.ts'));
+    });
+
+    it('should validate arguments', () => {
+        expect(() => fromReadable(null)).to.throw(ArgumentNullError);
+        expect(() => fromReadableStream(undefined)).to.throw(ArgumentNullError);
+        expect(() => toReadable(null)).to.throw(ArgumentNullError);
+        expect(() => toReadableStream(undefined)).to.throw(ArgumentNullError);
+    });
+
+    describe('fromReadable', () => {
+        it('should yield the chunks of the stream', async () => {
+            const readable = Readable.from(['a', 'b', 'c']);
+            expect(await fromReadable<string>(readable).map(x => x.toUpperCase()).items()).to.eql(['A', 'B', 'C']);
+        });
+
+        it('should reject when the stream errors', async () => {
+            const readable = new Readable({
+                objectMode: true,
+                read(this: Readable) {
+                    this.destroy(new Error('stream failed'));
+                }
+            });
+
+            await expectRejection(fromReadable(readable).items(), 'stream failed');
+        });
+
+        it('should destroy the stream when the consumer stops early', async () => {
+            const readable = Readable.from([1, 2, 3]);
+            expect(await fromReadable(readable).first()).to.equal(1);
+            expect(readable.destroyed).to.be.true;
+        });
+    });
+
+    describe('fromReadableStream', () => {
+        it('should yield the chunks of the stream', async () => {
+            const stream = new ReadableStream<number>({
+                start(controller) {
+                    controller.enqueue(1);
+                    controller.enqueue(2);
+                    controller.close();
+                }
+            });
+
+            expect(await fromReadableStream(stream).items()).to.eql([1, 2]);
+        });
+
+        it('should reject when the stream errors', async () => {
+            const stream = new ReadableStream<number>({
+                pull(controller) {
+                    controller.error(new Error('stream failed'));
+                }
+            });
+
+            await expectRejection(fromReadableStream(stream).items(), 'stream failed');
+        });
+
+        it('should cancel the stream when the consumer stops early', async () => {
+            let cancelled = false;
+            let pulled = 0;
+            const stream = new ReadableStream<number>(
+                {
+                    pull(controller) {
+                        controller.enqueue(pulled++);
+                    },
+                    cancel() {
+                        cancelled = true;
+                    }
+                },
+                { highWaterMark: 0 }
+            );
+
+            expect(await fromReadableStream(stream).first(x => x === 2)).to.equal(2);
+            expect(cancelled).to.be.true;
+            expect(pulled).to.equal(3);
+        });
+    });
+
+    describe('toReadable', () => {
+        it('should stream the elements of iterables', async () => {
+            expect(await fromReadable(toReadable(new Iterable([1, 2, 3]))).items()).to.eql([1, 2, 3]);
+            expect(await fromReadable(toReadable(async () => ['a'])).items()).to.eql(['a']);
+        });
+
+        it('should only pull elements up to the high water mark', async () => {
+            const { state, source } = trackedSource(100);
+            const readable = toReadable(source, { highWaterMark: 2 });
+            readable.pause();
+            readable.read(0);
+            await tick();
+            await tick();
+            expect(state.pulled).to.be.lessThan(5);
+
+            const items = await fromReadable(readable).items();
+            expect(items.length).to.equal(100);
+            expect(state.closed).to.be.true;
+        });
+
+        it('should destroy the stream when the source fails', async () => {
+            const readable = toReadable(failingSource());
+            await expectRejection(fromReadable(readable).items(), 'source failed');
+            expect(readable.destroyed).to.be.true;
+        });
+
+        it('should return the source when the stream is destroyed', async () => {
+            const { state, source } = trackedSource(100);
+            const readable = toReadable(source, { highWaterMark: 1 });
+            expect(await fromReadable(readable).first()).to.equal(0);
+            expect(readable.destroyed).to.be.true;
+            expect(state.closed).to.be.true;
+            expect(state.pulled).to.be.lessThan(5);
+        });
+
+        it('should emit errors of closing the source', async () => {
+            const source = new AsyncIterable(async function* () {
+                try {
+                    yield 1;
+                    yield 2;
+                } finally {
+                    throw new Error('close failed');
+                }
+            });
+            const readable = toReadable(source, { highWaterMark: 1 });
+            const error = new Promise<Error>(resolve => readable.on('error', resolve));
+            readable.read(0);
+            await tick();
+            readable.destroy();
+
+            expect((await error).message).to.equal('close failed');
+        });
+
+        it('should be destroyable before reading', async () => {
+            const { state, source } = trackedSource(1);
+            const readable = toReadable(source);
+            const closed = new Promise(resolve => readable.on('close', resolve));
+            readable.destroy();
+            await closed;
+            expect(state.pulled).to.equal(0);
+        });
+    });
+
+    describe('toReadableStream', () => {
+        it('should stream the elements of iterables', async () => {
+            expect(await fromReadableStream(toReadableStream([1, 2, 3])).items()).to.eql([1, 2, 3]);
+        });
+
+        it('should pull elements as they are read', async () => {
+            const { state, source } = trackedSource(100);
+            const reader = toReadableStream(source).getReader();
+            await tick();
+            expect(state.pulled).to.equal(0);
+            expect((await reader.read()).value).to.equal(0);
+            expect(state.pulled).to.equal(1);
+            reader.releaseLock();
+        });
+
+        it('should error the stream when the source fails', async () => {
+            await expectRejection(fromReadableStream(toReadableStream(failingSource())).items(), 'source failed');
+        });
+
+        it('should return the source when the stream is cancelled', async () => {
+            const { state, source } = trackedSource(100);
+            const stream = toReadableStream(source);
+            expect(await fromReadableStream(stream).first(x => x === 1)).to.equal(1);
+            expect(state.closed).to.be.true;
+            await toReadableStream(source).cancel();
+        });
+    });
+});